@@ -1,22 +1,131 @@
-import { BaseAgent, CommandResult } from '../types';
+import { BaseAgent, CommandResult, AgentResult, SkillTriggerInfo } from '../types';
+
+const SKILL_PATH_RE = /(?:\.claude\/skills|\.agents\/skills)\/([^/\s'"]+)/;
+
+/**
+ * Parse --output-format stream-json output from Claude Code.
+ *
+ * Events of interest:
+ *   - type=assistant, message.content[].type="text"     → agent text output
+ *   - type=assistant, message.content[].type="tool_use" → tool usage / skill triggers
+ *   - type=result                                       → final text, turns, cost, usage
+ *
+ * Skill triggers are detected from Skill tool invocations, Read calls on a
+ * skill's SKILL.md, and Bash commands that reference a skills directory.
+ */
+export function parseClaudeStreamJson(rawOutput: string): AgentResult {
+    const lines = rawOutput.split('\n').filter(l => l.trim());
+    const toolsUsed = new Set<string>();
+    const skillsTriggered: SkillTriggerInfo[] = [];
+    const seenSkills = new Set<string>();
+    const messageParts: string[] = [];
+    let resultEvent: any;
+
+    const addSkill = (name: string, source: SkillTriggerInfo['source'], details: string) => {
+        const key = `${source}:${name}`;
+        if (seenSkills.has(key)) return;
+        seenSkills.add(key);
+        skillsTriggered.push({ name, source, timestamp: new Date().toISOString(), details });
+    };
+
+    for (const line of lines) {
+        let event: any;
+        try {
+            event = JSON.parse(line);
+        } catch {
+            continue;
+        }
+
+        if (event.type === 'assistant' && Array.isArray(event.message?.content)) {
+            for (const block of event.message.content) {
+                if (block.type === 'text' && block.text) {
+                    messageParts.push(block.text);
+                }
+                if (block.type !== 'tool_use') continue;
+
+                const toolName: string = block.name || 'unknown';
+                const input = block.input || {};
+                toolsUsed.add(toolName);
+
+                if (toolName === 'Skill') {
+                    const skillName = input.skill || input.command || input.name;
+                    if (skillName) addSkill(String(skillName), 'tool_use', `Skill tool invoked: ${skillName}`);
+                } else if (toolName === 'Read') {
+                    const filePath: string = input.file_path || '';
+                    const match = filePath.match(SKILL_PATH_RE);
+                    if (match && /SKILL\.md$/i.test(filePath)) {
+                        addSkill(match[1], 'file_read', `Read ${filePath}`);
+                    }
+                } else if (toolName === 'Bash') {
+                    const cmd: string = input.command || '';
+                    const match = cmd.match(SKILL_PATH_RE);
+                    if (match) addSkill(match[1], 'file_read', `Command referenced skill: ${cmd}`);
+                }
+            }
+        }
+
+        if (event.type === 'result') {
+            resultEvent = event;
+        }
+    }
+
+    const agentResult: AgentResult = {
+        output: typeof resultEvent?.result === 'string' && resultEvent.result
+            ? resultEvent.result
+            : messageParts.join('\n'),
+        skills_triggered: skillsTriggered,
+        tools_used: Array.from(toolsUsed),
+    };
+
+    if (resultEvent) {
+        const usage = resultEvent.usage || {};
+        agentResult.num_turns = resultEvent.num_turns;
+        agentResult.duration_api_ms = resultEvent.duration_api_ms;
+        agentResult.cost_usd = resultEvent.total_cost_usd ?? resultEvent.cost_usd;
+        if (usage.input_tokens != null || usage.output_tokens != null) {
+            agentResult.input_tokens = (usage.input_tokens || 0)
+                + (usage.cache_creation_input_tokens || 0)
+                + (usage.cache_read_input_tokens || 0);
+            agentResult.output_tokens = usage.output_tokens || 0;
+        }
+    }
+
+    return agentResult;
+}
 
 export class ClaudeAgent extends BaseAgent {
+    constructor(private readonly model?: string) {
+        super();
+    }
+
     async run(
         instruction: string,
         _workspacePath: string,
         runCommand: (cmd: string) => Promise<CommandResult>
-    ): Promise<string> {
+    ): Promise<AgentResult> {
         // Write instruction to a temp file to avoid shell escaping issues with long prompts
         const b64 = Buffer.from(instruction).toString('base64');
         await runCommand(`echo '${b64}' | base64 -d > /tmp/.prompt.md`);
 
-        const command = `claude -p --dangerously-skip-permissions "$(cat /tmp/.prompt.md)"`;
+        // stream-json (requires --verbose in print mode) emits one JSON event per line
+        const model = this.model ? ` --model ${this.model}` : '';
+        const command = `claude -p --dangerously-skip-permissions${model} --output-format stream-json --verbose "$(cat /tmp/.prompt.md)"`;
         const result = await runCommand(command);
 
         if (result.exitCode !== 0) {
             console.error('ClaudeAgent: Claude failed to execute correctly.');
         }
 
-        return result.stdout + '\n' + result.stderr;
+        const agentResult = parseClaudeStreamJson(result.stdout);
+        agentResult.raw_output = result.stdout.length > 256 * 1024
+            ? result.stdout.slice(0, 256 * 1024) + '\n... [truncated]'
+            : result.stdout;
+
+        // Fallback: if parsing didn't extract any output, use raw stdout+stderr
+        if (!agentResult.output) {
+            agentResult.output = result.stdout + '\n' + result.stderr;
+        }
+
+        return agentResult;
     }
 }
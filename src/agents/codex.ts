@@ -11,7 +11,7 @@ import * as os from 'os';
  *   - type=item.completed, item.type="agent_message"     → agent text output
  *   - type=turn.completed, usage                         → token counts
  */
-function parseCodexJsonOutput(rawOutput: string): AgentResult {
+export function parseCodexJsonOutput(rawOutput: string): AgentResult {
     const lines = rawOutput.split('\n').filter(l => l.trim());
     const toolsUsed = new Set<string>();
     const skillsTriggered: SkillTriggerInfo[] = [];
@@ -21,6 +21,7 @@ function parseCodexJsonOutput(rawOutput: string): AgentResult {
     let inputTokens = 0;
     let outputTokens = 0;
     let numTurns = 0;
+    let hasUsage = false;
 
     for (const line of lines) {
         let event: any;
@@ -71,6 +72,7 @@ function parseCodexJsonOutput(rawOutput: string): AgentResult {
         // Token usage from turn completion
         if (event.type === 'turn.completed' && event.usage) {
             numTurns++;
+            hasUsage = true;
             inputTokens += event.usage.input_tokens || 0;
             outputTokens += event.usage.output_tokens || 0;
         }
@@ -78,15 +80,24 @@ function parseCodexJsonOutput(rawOutput: string): AgentResult {
 
     const finalOutput = messageParts.join('\n');
 
-    return {
+    const agentResult: AgentResult = {
         output: finalOutput,
         skills_triggered: skillsTriggered,
         tools_used: Array.from(toolsUsed),
         num_turns: numTurns || undefined,
     };
+    if (hasUsage) {
+        agentResult.input_tokens = inputTokens;
+        agentResult.output_tokens = outputTokens;
+    }
+    return agentResult;
 }
 
 export class CodexAgent extends BaseAgent {
+    constructor(private readonly model?: string) {
+        super();
+    }
+
     /**
      * Read API keys from ~/.codex/auth.json
      * Returns environment variables to inject for codex CLI
@@ -136,7 +147,8 @@ export class CodexAgent extends BaseAgent {
         // Use --json for structured JSONL output, --ephemeral to avoid writing session files
         // codex exec runs non-interactively; --full-auto enables sandboxed auto-execution
         // --skip-git-repo-check allows running in non-git temp directories
-        const command = `cat /tmp/.prompt.md | codex exec --full-auto --skip-git-repo-check --json --ephemeral`;
+        const model = this.model ? ` --model ${this.model}` : '';
+        const command = `cat /tmp/.prompt.md | codex exec --full-auto --skip-git-repo-check${model} --json --ephemeral`;
         const result = await runCommand(command, Object.keys(envVars).length > 0 ? envVars : undefined);
 
         if (result.exitCode !== 0) {
@@ -1,22 +1,173 @@
-import { BaseAgent, CommandResult } from '../types';
+import { BaseAgent, CommandResult, AgentResult, SkillTriggerInfo } from '../types';
+
+const SKILL_PATH_RE = /(?:\.agents\/skills|\.gemini\/skills)\/([^/\s'"]+)/;
+const READ_TOOLS = new Set(['read_file', 'read_many_files']);
+
+/** Older Gemini CLI versions reject --output-format before running the agent */
+const UNSUPPORTED_FORMAT_RE = /(unknown arguments?|invalid values)[\s\S]*output-format/i;
+
+/**
+ * Parse structured output from Gemini CLI.
+ *
+ * Accepts either format the CLI can emit:
+ *   - `--output-format stream-json`: one event per line
+ *       type=message (role=assistant) → agent text output
+ *       type=tool_use                 → tool usage / skill triggers
+ *       type=result, stats            → token counts
+ *   - `--output-format json`: a single `{ response, stats }` document
+ *       stats.tools.byName            → tool usage
+ *       stats.models[*].tokens        → token counts
+ *
+ * Skill triggers are detected from activate_skill calls, read_file calls on a
+ * skill's SKILL.md, and shell commands that reference a skills directory.
+ */
+export function parseGeminiOutput(rawOutput: string): AgentResult {
+    const toolsUsed = new Set<string>();
+    const skillsTriggered: SkillTriggerInfo[] = [];
+    const seenSkills = new Set<string>();
+    const messageParts: string[] = [];
+    const agentResult: AgentResult = { output: '', skills_triggered: skillsTriggered, tools_used: [] };
+
+    const addSkill = (name: string, source: SkillTriggerInfo['source'], details: string, timestamp?: string) => {
+        const key = `${source}:${name}`;
+        if (seenSkills.has(key)) return;
+        seenSkills.add(key);
+        skillsTriggered.push({ name, source, timestamp: timestamp || new Date().toISOString(), details });
+    };
+
+    // Single JSON document (--output-format json)
+    const doc = parseJsonDocument(rawOutput);
+    if (doc && !('type' in doc) && ('response' in doc || 'stats' in doc)) {
+        agentResult.output = typeof doc.response === 'string' ? doc.response : '';
+        for (const name of Object.keys(doc.stats?.tools?.byName || {})) {
+            toolsUsed.add(name);
+        }
+        const models = Object.values(doc.stats?.models || {}) as any[];
+        if (models.length > 0) {
+            agentResult.input_tokens = models.reduce((sum, m) => sum + (m.tokens?.prompt || 0), 0);
+            agentResult.output_tokens = models.reduce((sum, m) => sum + (m.tokens?.candidates || 0), 0);
+            agentResult.num_turns = models.reduce((sum, m) => sum + (m.api?.totalRequests || 0), 0) || undefined;
+            agentResult.duration_api_ms = models.reduce((sum, m) => sum + (m.api?.totalLatencyMs || 0), 0) || undefined;
+        }
+        agentResult.tools_used = Array.from(toolsUsed);
+        return agentResult;
+    }
+
+    // Event stream (--output-format stream-json)
+    let numTurns = 0;
+    let awaitingModel = true;
+    for (const line of rawOutput.split('\n').filter(l => l.trim())) {
+        let event: any;
+        try {
+            event = JSON.parse(line);
+        } catch {
+            continue;
+        }
+
+        // A model turn starts with the first assistant message or tool call after user/tool input
+        const fromModel = event.type === 'tool_use' || (event.type === 'message' && event.role === 'assistant');
+        if (fromModel && awaitingModel) {
+            numTurns++;
+            awaitingModel = false;
+        } else if (event.type === 'tool_result' || (event.type === 'message' && event.role === 'user')) {
+            awaitingModel = true;
+        }
+
+        if (event.type === 'message' && event.role === 'assistant' && typeof event.content === 'string') {
+            if (event.delta && messageParts.length > 0) {
+                messageParts[messageParts.length - 1] += event.content;
+            } else {
+                messageParts.push(event.content);
+            }
+        } else if (awaitingModel) {
+            // Start a fresh assistant segment after each user/tool turn
+            messageParts.push('');
+        }
+
+        if (event.type === 'tool_use') {
+            const toolName: string = event.tool_name || 'unknown';
+            const params = event.parameters || {};
+            toolsUsed.add(toolName);
+
+            if (toolName === 'activate_skill') {
+                const skillName = params.name || params.skill;
+                if (skillName) addSkill(String(skillName), 'tool_use', `activate_skill: ${skillName}`, event.timestamp);
+            } else if (READ_TOOLS.has(toolName)) {
+                const paths: string[] = [params.file_path, params.absolute_path, params.path, ...(params.paths || [])]
+                    .filter((p: unknown) => typeof p === 'string');
+                for (const p of paths) {
+                    const match = p.match(SKILL_PATH_RE);
+                    if (match && /SKILL\.md$/i.test(p)) addSkill(match[1], 'file_read', `Read ${p}`, event.timestamp);
+                }
+            } else if (toolName === 'run_shell_command') {
+                const cmd: string = params.command || '';
+                const match = cmd.match(SKILL_PATH_RE);
+                if (match) addSkill(match[1], 'file_read', `Command referenced skill: ${cmd}`, event.timestamp);
+            }
+        }
+
+        if (event.type === 'result' && event.stats) {
+            const stats = event.stats;
+            if (stats.input_tokens != null || stats.output_tokens != null) {
+                agentResult.input_tokens = stats.input_tokens || 0;
+                agentResult.output_tokens = stats.output_tokens || 0;
+            }
+        }
+    }
+
+    agentResult.output = messageParts.filter(p => p.trim()).join('\n');
+    agentResult.tools_used = Array.from(toolsUsed);
+    agentResult.num_turns = numTurns || undefined;
+    return agentResult;
+}
+
+/** Parse stdout as a single JSON object, tolerating log lines before it */
+function parseJsonDocument(rawOutput: string): any | undefined {
+    const start = rawOutput.indexOf('{');
+    if (start === -1) return undefined;
+    try {
+        return JSON.parse(rawOutput.slice(start));
+    } catch {
+        return undefined;
+    }
+}
 
 export class GeminiAgent extends BaseAgent {
+    constructor(private readonly model?: string) {
+        super();
+    }
+
     async run(
         instruction: string,
         _workspacePath: string,
         runCommand: (cmd: string) => Promise<CommandResult>
-    ): Promise<string> {
+    ): Promise<AgentResult> {
         // Write instruction to a temp file to avoid shell escaping issues with long prompts
         const b64 = Buffer.from(instruction).toString('base64');
         await runCommand(`echo '${b64}' | base64 -d > /tmp/.prompt.md`);
 
-        const command = `gemini -y --sandbox=none -p "$(cat /tmp/.prompt.md)"`;
-        const result = await runCommand(command);
+        const baseCommand = `gemini -y --sandbox=none${this.model ? ` --model ${this.model}` : ''}`;
+        let result = await runCommand(`${baseCommand} --output-format stream-json -p "$(cat /tmp/.prompt.md)"`);
+
+        // Older CLI versions don't support structured output — retry as plain text
+        if (result.exitCode !== 0 && UNSUPPORTED_FORMAT_RE.test(result.stderr + result.stdout)) {
+            result = await runCommand(`${baseCommand} -p "$(cat /tmp/.prompt.md)"`);
+        }
 
         if (result.exitCode !== 0) {
             console.error('GeminiAgent: Gemini CLI failed to execute correctly.');
         }
 
-        return result.stdout + '\n' + result.stderr;
+        const agentResult = parseGeminiOutput(result.stdout);
+        agentResult.raw_output = result.stdout.length > 256 * 1024
+            ? result.stdout.slice(0, 256 * 1024) + '\n... [truncated]'
+            : result.stdout;
+
+        // Fallback: if parsing didn't extract any output, use raw stdout+stderr
+        if (!agentResult.output) {
+            agentResult.output = result.stdout + '\n' + result.stderr;
+        }
+
+        return agentResult;
     }
 }
@@ -17,6 +17,8 @@ import { OpenCodeAgent, OpenCodeAgentConfig } from './opencode';
 
 /** Configuration for agent creation */
 export interface AgentConfig {
+    /** Model passed to the agent CLI (default: the CLI's own default) */
+    model?: string;
     /** ACP-specific configuration */
     acp?: AcpAgentConfig;
     /** OpenCode-specific configuration */
@@ -25,12 +27,12 @@ export interface AgentConfig {
 
 /** Registry of available agent implementations */
 const AGENT_REGISTRY: Record<string, (config?: AgentConfig) => BaseAgent> = {
-    gemini: () => new GeminiAgent(),
-    claude: () => new ClaudeAgent(),
-    codex: () => new CodexAgent(),
+    gemini: (config) => new GeminiAgent(config?.model),
+    claude: (config) => new ClaudeAgent(config?.model),
+    codex: (config) => new CodexAgent(config?.model),
     // ACP agent requires config, registered as placeholder
     acp: (config) => new AcpAgent(config?.acp || { command: 'gemini --acp' }),
-    opencode: (config) => new OpenCodeAgent(config?.opencode || {}),
+    opencode: (config) => new OpenCodeAgent({ model: config?.model, ...config?.opencode }),
 };
 
 /** Get the list of supported agent names */
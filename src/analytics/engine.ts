@@ -1,14 +1,17 @@
-import * as fs from 'fs-extra';
-import * as path from 'path';
-import { EvalReport } from '../types';
+import { wilsonInterval, bootstrapMeanInterval } from './stats';
+import { EvalReport, TrialResult, CheckSummary, ToolUsage, SkillSelection, UsageSummary, ConfidenceIntervals, ConfidenceInterval } from '../types';
 
 export interface AggregateStats {
     task: string;
+    agent?: string;         // set when the reports record their agent; each agent/model is aggregated apart
+    model?: string;
     passRateNoSkill: number;
     passRateWithSkill: number;
     normalizedGain: number;
     avgDurationMs: number;
     avgCommands: number;
+    reportsWithSkill: number;
+    reportsNoSkill: number;
 }
 
 /**
@@ -22,43 +25,182 @@ export function calculateNormalizedGain(pWith: number, pWithout: number): number
     return (pWith - pWithout) / (1 - pWithout);
 }
 
-export class AnalyticsEngine {
-    async loadReports(logDir: string): Promise<EvalReport[]> {
-        const files = await fs.readdir(logDir);
-        const reports: EvalReport[] = [];
-
-        for (const file of files) {
-            if (file.endsWith('.json')) {
-                const report = await fs.readJSON(path.join(logDir, file));
-                reports.push(report);
+/**
+ * Aggregate grader checks across trials into per-check pass rates.
+ * Checks are keyed by name, in order of first appearance.
+ */
+export function summarizeChecks(trials: TrialResult[]): CheckSummary[] {
+    const byName = new Map<string, CheckSummary>();
+
+    for (const trial of trials) {
+        for (const gr of trial.grader_results || []) {
+            for (const check of gr.checks || []) {
+                let summary = byName.get(check.name);
+                if (!summary) {
+                    summary = { name: check.name, passed: 0, total: 0, pass_rate: 0 };
+                    byName.set(check.name, summary);
+                }
+                summary.total++;
+                if (check.passed) summary.passed++;
             }
         }
+    }
+
+    return Array.from(byName.values()).map(s => ({ ...s, pass_rate: s.passed / s.total }));
+}
+
+/**
+ * Fraction of trials that triggered at least one skill.
+ * Only trials with structured agent output are counted; returns undefined if there are none.
+ */
+export function calculateSkillTriggerRate(trials: TrialResult[]): number | undefined {
+    const instrumented = trials.filter(t => t.skills_triggered !== undefined);
+    if (instrumented.length === 0) return undefined;
+    return instrumented.filter(t => t.skills_triggered!.length > 0).length / instrumented.length;
+}
 
-        return reports;
+/** Count the trials each tool was used in, most-used first */
+export function summarizeToolUsage(trials: TrialResult[]): ToolUsage[] {
+    const counts = new Map<string, number>();
+    for (const trial of trials) {
+        for (const tool of new Set(trial.tools_used || [])) {
+            counts.set(tool, (counts.get(tool) || 0) + 1);
+        }
     }
+    return Array.from(counts, ([name, n]) => ({ name, trials: n }))
+        .sort((a, b) => b.trials - a.trials);
+}
+
+/**
+ * Whether a trial counts as a success. Reports written before pass_threshold
+ * existed have no `passed` flag and used a fixed 0.5 cutoff.
+ */
+export function trialPassed(trial: TrialResult, threshold: number = 0.5): boolean {
+    return trial.passed ?? trial.reward >= threshold;
+}
+
+/**
+ * 95% confidence intervals for pass rate, pass@k and pass^k (k = number of trials).
+ *
+ * pass_rate uses a Wilson interval when every reward is 0 or 1, and a bootstrap
+ * of the mean reward otherwise. The k-metrics map the Wilson interval of the
+ * per-trial success rate (see trialPassed) through 1-(1-p)^k and p^k, widened to
+ * contain the reported point estimate (pass@k uses the unbiased estimator).
+ */
+export function calculateConfidenceIntervals(
+    trials: TrialResult[],
+    passAtK: number,
+    passPowK: number
+): ConfidenceIntervals {
+    const n = trials.length;
+    const rewards = trials.map(t => t.reward);
+    const binary = rewards.every(r => r === 0 || r === 1);
+    const successes = trials.filter(t => trialPassed(t)).length;
+    const p = wilsonInterval(successes, n);
 
+    const contain = (ci: ConfidenceInterval, point: number): ConfidenceInterval => ({
+        lower: Math.min(ci.lower, point),
+        upper: Math.max(ci.upper, point),
+    });
+
+    return {
+        level: 0.95,
+        pass_rate: binary ? wilsonInterval(successes, n) : bootstrapMeanInterval(rewards),
+        pass_at_k: contain({ lower: 1 - Math.pow(1 - p.lower, n), upper: 1 - Math.pow(1 - p.upper, n) }, passAtK),
+        pass_pow_k: contain({ lower: Math.pow(p.lower, n), upper: Math.pow(p.upper, n) }, passPowK),
+    };
+}
+
+/**
+ * Total tokens and cost across trials. Trials without a tokens_estimated flag
+ * predate agent-reported usage, so they count as estimates.
+ */
+export function summarizeUsage(trials: TrialResult[]): UsageSummary {
+    const costed = trials.filter(t => t.cost_usd != null);
+    const usage: UsageSummary = {
+        input_tokens: trials.reduce((sum, t) => sum + (t.input_tokens || 0), 0),
+        output_tokens: trials.reduce((sum, t) => sum + (t.output_tokens || 0), 0),
+        tokens_estimated: trials.some(t => t.tokens_estimated !== false),
+    };
+    if (costed.length > 0) {
+        usage.cost_usd = costed.reduce((sum, t) => sum + t.cost_usd!, 0);
+        usage.cost_trials = costed.length;
+    }
+    return usage;
+}
+
+/**
+ * Precision/recall of skill selection when distractor skills compete with the targets.
+ * A skill counts as selected when the agent read or invoked it (init_list alone does not count).
+ * Only trials with structured agent output are counted; returns undefined if there are none.
+ */
+export function calculateSkillSelection(
+    trials: TrialResult[],
+    targets: string[],
+    distractors: string[]
+): SkillSelection | undefined {
+    const instrumented = trials.filter(t => t.skills_triggered !== undefined);
+    if (instrumented.length === 0 || targets.length === 0) return undefined;
+
+    const injected = new Set([...targets, ...distractors]);
+    const counts = new Map<string, number>();
+    let truePositives = 0;
+    let falsePositives = 0;
+    let correctTrials = 0;
+
+    for (const trial of instrumented) {
+        const selected = new Set(trial.skills_triggered!
+            .filter(s => s.source !== 'init_list' && injected.has(s.name))
+            .map(s => s.name));
+        const hits = targets.filter(name => selected.has(name)).length;
+        const misses = distractors.filter(name => selected.has(name)).length;
+
+        truePositives += hits;
+        falsePositives += misses;
+        if (hits === targets.length && misses === 0) correctTrials++;
+        for (const name of selected) {
+            counts.set(name, (counts.get(name) || 0) + 1);
+        }
+    }
+
+    return {
+        precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0,
+        recall: truePositives / (targets.length * instrumented.length),
+        accuracy: correctTrials / instrumented.length,
+        trials: instrumented.length,
+        triggered: Array.from(counts, ([name, n]) => ({ name, trials: n, distractor: !targets.includes(name) }))
+            .sort((a, b) => b.trials - a.trials),
+    };
+}
+
+export class AnalyticsEngine {
     aggregate(reports: EvalReport[]): AggregateStats[] {
+        // One group per task, agent and model, so a matrix run's agents aren't pooled
         const taskGroups: Record<string, {
+            task: string;
+            agent?: string;
+            model?: string;
             withSkill: EvalReport[];
             withoutSkill: EvalReport[];
         }> = {};
 
         for (const report of reports) {
-            if (!taskGroups[report.task]) {
-                taskGroups[report.task] = { withSkill: [], withoutSkill: [] };
+            const key = JSON.stringify([report.task, report.agent, report.model]);
+            if (!taskGroups[key]) {
+                taskGroups[key] = { task: report.task, agent: report.agent, model: report.model, withSkill: [], withoutSkill: [] };
             }
 
             const hasSkills = report.skills_used && report.skills_used.length > 0;
             if (hasSkills) {
-                taskGroups[report.task].withSkill.push(report);
+                taskGroups[key].withSkill.push(report);
             } else {
-                taskGroups[report.task].withoutSkill.push(report);
+                taskGroups[key].withoutSkill.push(report);
             }
         }
 
         const stats: AggregateStats[] = [];
 
-        for (const [task, data] of Object.entries(taskGroups)) {
+        for (const { task, agent, model, ...data } of Object.values(taskGroups)) {
             const allReports = [...data.withSkill, ...data.withoutSkill];
 
             const avgWith = data.withSkill.length > 0
@@ -78,11 +220,15 @@ export class AnalyticsEngine {
 
             stats.push({
                 task,
+                ...(agent ? { agent } : {}),
+                ...(model ? { model } : {}),
                 passRateWithSkill: avgWith,
                 passRateNoSkill: avgWithout,
                 normalizedGain: calculateNormalizedGain(avgWith, avgWithout),
                 avgDurationMs,
-                avgCommands
+                avgCommands,
+                reportsWithSkill: data.withSkill.length,
+                reportsNoSkill: data.withoutSkill.length
             });
         }
 
@@ -0,0 +1,58 @@
+/**
+ * Saved reports and run manifests.
+ *
+ * Every command that reads a results directory (preview, analyze, compare,
+ * history) loads it through loadReports, so they agree on which files are
+ * reports and on the order they come in.
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvalReport, RunManifest } from '../types';
+
+/** A report read back from the results directory */
+export interface SavedReport extends EvalReport {
+    file: string;       // file name in the results directory
+    time?: string;      // ISO timestamp the report was saved, from the file name
+}
+
+export interface LoadReportsOptions {
+    baseline?: boolean;     // include the no-skill reports of --baseline runs (default: true)
+}
+
+/** ISO time from a report file name (<task>_<timestamp>.json, with ":" and "." replaced by "-") */
+export function reportTime(file: string): string | undefined {
+    const m = file.match(/(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/);
+    return m ? `${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z` : undefined;
+}
+
+/**
+ * Every report in a results directory, oldest first: by the time in the file
+ * name, then by file name. Files that aren't reports or can't be parsed are
+ * skipped; a missing directory has no reports.
+ */
+export async function loadReports(resultsDir: string, opts: LoadReportsOptions = {}): Promise<SavedReport[]> {
+    const files = (await fs.readdir(resultsDir).catch(() => [] as string[])).filter(f => f.endsWith('.json'));
+    const reports: SavedReport[] = [];
+    for (const file of files) {
+        try {
+            const report = await fs.readJSON(path.join(resultsDir, file));
+            if (!report?.task || !Array.isArray(report.trials)) continue;
+            if (report.baseline && opts.baseline === false) continue;
+            reports.push({ ...report, file, time: reportTime(file) });
+        } catch { /* skip malformed */ }
+    }
+    return reports.sort((a, b) => (a.time ?? '').localeCompare(b.time ?? '') || a.file.localeCompare(b.file));
+}
+
+/** Run manifests keyed by run_id */
+export async function loadRuns(runsDir: string): Promise<Map<string, RunManifest>> {
+    const runs = new Map<string, RunManifest>();
+    const files = (await fs.readdir(runsDir).catch(() => [] as string[])).filter(f => f.endsWith('.json'));
+    for (const file of files) {
+        try {
+            const manifest = await fs.readJSON(path.join(runsDir, file));
+            if (manifest?.run_id) runs.set(manifest.run_id, manifest);
+        } catch { /* skip malformed */ }
+    }
+    return runs;
+}
@@ -0,0 +1,93 @@
+/**
+ * Statistical helpers for trial outcomes: significance tests for comparing
+ * runs and confidence intervals for a single run's metrics.
+ */
+import { ConfidenceInterval } from '../types';
+
+/** ln(n!) via a running sum — trial counts are small enough that this is exact and fast */
+function logFactorial(n: number): number {
+    let sum = 0;
+    for (let i = 2; i <= n; i++) sum += Math.log(i);
+    return sum;
+}
+
+/**
+ * Two-sided Fisher's exact test on a 2x2 table of successes/failures.
+ *
+ *              success   failure
+ *   group A    passA     totalA - passA
+ *   group B    passB     totalB - passB
+ *
+ * Returns the probability, under the null hypothesis that both groups share
+ * one success rate, of a table at least as extreme as the observed one.
+ */
+export function fisherExactTest(passA: number, totalA: number, passB: number, totalB: number): number {
+    const successes = passA + passB;
+    const total = totalA + totalB;
+    if (totalA === 0 || totalB === 0 || successes === 0 || successes === total) return 1;
+
+    const base = logFactorial(successes) + logFactorial(total - successes)
+        + logFactorial(totalA) + logFactorial(totalB) - logFactorial(total);
+    const probability = (a: number) => Math.exp(base
+        - logFactorial(a) - logFactorial(totalA - a)
+        - logFactorial(successes - a) - logFactorial(totalB - successes + a));
+
+    const observed = probability(passA);
+    let p = 0;
+    for (let a = Math.max(0, successes - totalB); a <= Math.min(totalA, successes); a++) {
+        const pa = probability(a);
+        // Relative tolerance so tables as likely as the observed one aren't dropped by rounding
+        if (pa <= observed * (1 + 1e-7)) p += pa;
+    }
+    return Math.min(1, p);
+}
+
+/** Two-sided z for 95% confidence — the only level skillgrade reports */
+const Z_95 = 1.959964;
+
+/** Wilson score interval for a binomial proportion (well-behaved at small n and at 0 or n successes) */
+export function wilsonInterval(successes: number, n: number): ConfidenceInterval {
+    if (n === 0) return { lower: 0, upper: 1 };
+
+    const p = successes / n;
+    const z2 = Z_95 * Z_95;
+    const denom = 1 + z2 / n;
+    const center = (p + z2 / (2 * n)) / denom;
+    const margin = (Z_95 / denom) * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n));
+    return {
+        lower: successes === 0 ? 0 : Math.max(0, center - margin),
+        upper: successes === n ? 1 : Math.min(1, center + margin),
+    };
+}
+
+/** Small seeded PRNG (mulberry32) so bootstrap intervals are reproducible across runs */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Percentile bootstrap interval for the mean of values */
+export function bootstrapMeanInterval(values: number[], iterations: number = 2000, seed: number = 1): ConfidenceInterval {
+    if (values.length === 0) return { lower: 0, upper: 1 };
+
+    const random = seededRandom(seed);
+    const means: number[] = [];
+    for (let i = 0; i < iterations; i++) {
+        let sum = 0;
+        for (let j = 0; j < values.length; j++) {
+            sum += values[Math.floor(random() * values.length)];
+        }
+        means.push(sum / values.length);
+    }
+    means.sort((a, b) => a - b);
+    return {
+        lower: means[Math.floor(iterations * 0.025)],
+        upper: means[Math.ceil(iterations * 0.975) - 1],
+    };
+}
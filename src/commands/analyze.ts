@@ -0,0 +1,89 @@
+/**
+ * `skillgrade analyze` command.
+ *
+ * Aggregates saved reports per task (and per agent and model, for matrix
+ * runs): pass rate with/without skill, normalized gain, average duration and
+ * command count.
+ */
+import * as path from 'path';
+import * as os from 'os';
+import { AnalyticsEngine, AggregateStats } from '../analytics/engine';
+import { loadReports } from '../analytics/reports';
+import { fmt, header } from '../utils/cli';
+
+export type AnalyzeFormat = 'table' | 'json' | 'markdown';
+
+export async function runAnalyze(dir: string, format: AnalyzeFormat = 'table', outputDir?: string) {
+    const base = outputDir || path.join(os.tmpdir(), 'skillgrade');
+    const resultsDir = path.join(base, path.basename(dir), 'results');
+
+    const engine = new AnalyticsEngine();
+    const reports = await loadReports(resultsDir);
+    const stats = engine.aggregate(reports).sort((a, b) => taskLabel(a).localeCompare(taskLabel(b)));
+
+    if (format === 'json') {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+    }
+
+    if (stats.length === 0) {
+        console.log(`\n  ${fmt.dim('No reports found in')} ${resultsDir}\n`);
+        return;
+    }
+
+    if (format === 'markdown') {
+        console.log(formatMarkdown(stats));
+        return;
+    }
+
+    console.log(`\n${fmt.bold('skillgrade analyze')}  ${fmt.dim(`${reports.length} reports from ${resultsDir}`)}`);
+    header('Tasks');
+    for (const line of formatTable(stats)) {
+        console.log(`    ${line}`);
+    }
+    console.log();
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/** Task name, with agent and model when the stats are per agent */
+function taskLabel(s: AggregateStats): string {
+    const agent = [s.agent, s.model].filter(Boolean).join(' ');
+    return agent ? `${s.task} (${agent})` : s.task;
+}
+
+/** Format the comparable columns of a stats row, using '—' for missing data */
+function statColumns(s: AggregateStats): string[] {
+    const hasBoth = s.reportsWithSkill > 0 && s.reportsNoSkill > 0;
+    return [
+        taskLabel(s),
+        s.reportsWithSkill > 0 ? pct(s.passRateWithSkill) : '—',
+        s.reportsNoSkill > 0 ? pct(s.passRateNoSkill) : '—',
+        hasBoth ? `${s.normalizedGain >= 0 ? '+' : ''}${s.normalizedGain.toFixed(2)}` : '—',
+        `${(s.avgDurationMs / 1000).toFixed(1)}s`,
+        s.avgCommands.toFixed(1),
+    ];
+}
+
+const COLUMNS = ['Task', 'With Skill', 'Without', 'Norm. Gain', 'Avg Duration', 'Avg Cmds'];
+
+/** Render aggregate stats as aligned terminal rows (header first) */
+export function formatTable(stats: AggregateStats[]): string[] {
+    const rows = stats.map(statColumns);
+    const widths = COLUMNS.map((c, i) => Math.max(c.length, ...rows.map(r => r[i].length)));
+    const line = (cells: string[]) => cells
+        .map((c, i) => i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))
+        .join('  ');
+
+    return [fmt.dim(line(COLUMNS)), ...rows.map(line)];
+}
+
+/** Render aggregate stats as a markdown table */
+export function formatMarkdown(stats: AggregateStats[]): string {
+    const lines = [
+        `| ${COLUMNS.join(' | ')} |`,
+        `|${COLUMNS.map((_, i) => i === 0 ? '------' : '-----:').join('|')}|`,
+        ...stats.map(s => `| ${statColumns(s).join(' | ')} |`),
+    ];
+    return lines.join('\n');
+}
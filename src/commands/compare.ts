@@ -0,0 +1,278 @@
+/**
+ * `skillgrade compare` command.
+ *
+ * Matches tasks across two runs (report files or results directories) and
+ * shows pass-rate, grader, check, duration and token deltas, flagging which
+ * pass/fail differences are statistically significant (Fisher's exact test).
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvalReport, TrialResult } from '../types';
+import { summarizeChecks, summarizeUsage, trialPassed } from '../analytics/engine';
+import { loadReports } from '../analytics/reports';
+import { fisherExactTest } from '../analytics/stats';
+import { fmt, header, formatTokens } from '../utils/cli';
+
+export type CompareFormat = 'table' | 'json' | 'markdown';
+
+/** Significance level for flagging differences */
+const ALPHA = 0.05;
+
+/** A before/after pair of numbers */
+export interface Delta {
+    a: number;
+    b: number;
+    delta: number;
+}
+
+/** Pass/fail counts in both runs with a Fisher's exact p-value */
+export interface CountDelta {
+    passedA: number;
+    totalA: number;
+    passedB: number;
+    totalB: number;
+    delta: number;          // difference in pass rate (B - A)
+    pValue: number;
+    significant: boolean;
+}
+
+export interface TaskComparison {
+    task: string;           // task name, with agent and model when the reports record them
+    passRate: Delta;        // mean reward
+    successes: CountDelta;  // trials meeting their run's pass criterion
+    graders: Array<{ name: string } & Partial<Delta>>;
+    checks: Array<{ name: string } & Partial<CountDelta>>;
+    durationMs: Delta;
+    tokens: Delta & { estimated: boolean };
+}
+
+export interface RunComparison {
+    tasks: TaskComparison[];
+    onlyInA: string[];
+    onlyInB: string[];
+}
+
+export async function runCompare(runA: string, runB: string, format: CompareFormat = 'table') {
+    const [reportsA, reportsB] = await Promise.all([loadRun(runA), loadRun(runB)]);
+    const comparison = compareRuns(reportsA, reportsB);
+
+    if (format === 'json') {
+        console.log(JSON.stringify(comparison, null, 2));
+        return;
+    }
+
+    if (format === 'markdown') {
+        console.log(formatMarkdown(comparison));
+        return;
+    }
+
+    console.log(`\n${fmt.bold('skillgrade compare')}  ${fmt.dim(`${runA} → ${runB}`)}`);
+    for (const task of comparison.tasks) {
+        header(task.task);
+        for (const line of formatTask(task)) {
+            console.log(`    ${line}`);
+        }
+    }
+
+    console.log();
+    if (comparison.onlyInA.length > 0) {
+        console.log(`  ${fmt.dim('only in A:')} ${comparison.onlyInA.join(', ')}`);
+    }
+    if (comparison.onlyInB.length > 0) {
+        console.log(`  ${fmt.dim('only in B:')} ${comparison.onlyInB.join(', ')}`);
+    }
+    const significant = comparison.tasks.filter(t => t.successes.significant).length;
+    console.log(`  ${comparison.tasks.length} tasks compared, ${significant} with a significant pass-rate change ${fmt.dim(`(p < ${ALPHA})`)}\n`);
+}
+
+/**
+ * Load the reports of a run, keyed by task, agent and model (see runKey).
+ * A file is a single report; a directory yields the newest non-baseline report
+ * per task and agent, so each agent of a matrix run is compared on its own.
+ */
+export async function loadRun(runPath: string): Promise<Map<string, EvalReport>> {
+    const resolved = path.resolve(runPath);
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (!stat) {
+        throw new Error(`Run not found: ${runPath}`);
+    }
+
+    const reports = new Map<string, EvalReport>();
+    if (stat.isDirectory()) {
+        // Oldest first, so the newest report of each task wins
+        for (const report of await loadReports(resolved, { baseline: false })) {
+            reports.set(runKey(report), report);
+        }
+        return reports;
+    }
+
+    try {
+        const report = await fs.readJSON(resolved);
+        if (report?.task && Array.isArray(report.trials) && !report.baseline) {
+            reports.set(runKey(report), report);
+        }
+    } catch { /* skip malformed */ }
+    return reports;
+}
+
+/** Key of a report within a run: the task name, plus agent and model when recorded */
+export function runKey(report: EvalReport): string {
+    const agent = [report.agent, report.model].filter(Boolean).join(' ');
+    return agent ? `${report.task} (${agent})` : report.task;
+}
+
+/** Compare every task (per agent and model) present in both runs */
+export function compareRuns(a: Map<string, EvalReport>, b: Map<string, EvalReport>): RunComparison {
+    const tasks = [...a.keys()].filter(t => b.has(t)).sort();
+    return {
+        tasks: tasks.map(t => ({ ...compareReports(a.get(t)!, b.get(t)!), task: t })),
+        onlyInA: [...a.keys()].filter(t => !b.has(t)).sort(),
+        onlyInB: [...b.keys()].filter(t => !a.has(t)).sort(),
+    };
+}
+
+export function compareReports(a: EvalReport, b: EvalReport): TaskComparison {
+    const usageA = a.usage || summarizeUsage(a.trials);
+    const usageB = b.usage || summarizeUsage(b.trials);
+
+    const checksA = new Map((a.checks || summarizeChecks(a.trials)).map(c => [c.name, c]));
+    const checksB = new Map((b.checks || summarizeChecks(b.trials)).map(c => [c.name, c]));
+    const checkNames = [...new Set([...checksA.keys(), ...checksB.keys()])];
+
+    const gradersA = graderScores(a.trials);
+    const gradersB = graderScores(b.trials);
+    const graderNames = [...new Set([...gradersA.keys(), ...gradersB.keys()])];
+
+    return {
+        task: a.task,
+        passRate: delta(a.pass_rate, b.pass_rate),
+        successes: countDelta(
+            a.trials.filter(t => trialPassed(t)).length, a.trials.length,
+            b.trials.filter(t => trialPassed(t)).length, b.trials.length
+        ),
+        graders: graderNames.map(name => {
+            const scoreA = gradersA.get(name);
+            const scoreB = gradersB.get(name);
+            return scoreA !== undefined && scoreB !== undefined
+                ? { name, ...delta(scoreA, scoreB) }
+                : { name, a: scoreA, b: scoreB };
+        }),
+        checks: checkNames.map(name => {
+            const ca = checksA.get(name);
+            const cb = checksB.get(name);
+            return ca && cb
+                ? { name, ...countDelta(ca.passed, ca.total, cb.passed, cb.total) }
+                : { name, passedA: ca?.passed, totalA: ca?.total, passedB: cb?.passed, totalB: cb?.total };
+        }),
+        durationMs: delta(meanDuration(a.trials), meanDuration(b.trials)),
+        tokens: {
+            ...delta(
+                (usageA.input_tokens + usageA.output_tokens) / (a.trials.length || 1),
+                (usageB.input_tokens + usageB.output_tokens) / (b.trials.length || 1)
+            ),
+            estimated: usageA.tokens_estimated || usageB.tokens_estimated,
+        },
+    };
+}
+
+function delta(a: number, b: number): Delta {
+    return { a, b, delta: b - a };
+}
+
+function countDelta(passedA: number, totalA: number, passedB: number, totalB: number): CountDelta {
+    const pValue = fisherExactTest(passedA, totalA, passedB, totalB);
+    return {
+        passedA, totalA, passedB, totalB,
+        delta: (totalB ? passedB / totalB : 0) - (totalA ? passedA / totalA : 0),
+        pValue,
+        significant: pValue < ALPHA,
+    };
+}
+
+function meanDuration(trials: TrialResult[]): number {
+    return trials.reduce((sum, t) => sum + (t.duration_ms || 0), 0) / (trials.length || 1);
+}
+
+/**
+ * Mean score per grader across trials. Graders are keyed by type, with a
+ * #N suffix when a task defines several graders of the same type.
+ */
+function graderScores(trials: TrialResult[]): Map<string, number> {
+    const scores = new Map<string, number[]>();
+    for (const trial of trials) {
+        const seen = new Map<string, number>();
+        for (const gr of trial.grader_results || []) {
+            const n = (seen.get(gr.grader_type) || 0) + 1;
+            seen.set(gr.grader_type, n);
+            const name = n === 1 ? gr.grader_type : `${gr.grader_type} #${n}`;
+            scores.set(name, [...(scores.get(name) || []), gr.score]);
+        }
+    }
+    return new Map([...scores].map(([name, s]) => [name, s.reduce((x, y) => x + y, 0) / s.length]));
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const signed = (v: number, format: (v: number) => string) => `${v >= 0 ? '+' : '-'}${format(Math.abs(v))}`;
+const fmtP = (c: CountDelta) => `p=${c.pValue < 0.001 ? '<0.001' : c.pValue.toFixed(3)}${c.significant ? ' *' : ''}`;
+
+/** Render one task's comparison as aligned terminal rows */
+export function formatTask(t: TaskComparison): string[] {
+    const rows: string[][] = [
+        ['Pass rate', pct(t.passRate.a), pct(t.passRate.b), signed(t.passRate.delta, pct), ''],
+        ['Successes', `${t.successes.passedA}/${t.successes.totalA}`, `${t.successes.passedB}/${t.successes.totalB}`,
+            signed(t.successes.delta, pct), fmtP(t.successes)],
+        ['Duration', `${(t.durationMs.a / 1000).toFixed(1)}s`, `${(t.durationMs.b / 1000).toFixed(1)}s`,
+            signed(t.durationMs.delta, v => `${(v / 1000).toFixed(1)}s`), ''],
+        ['Tokens/trial', formatTokens(Math.round(t.tokens.a), t.tokens.estimated), formatTokens(Math.round(t.tokens.b), t.tokens.estimated),
+            signed(t.tokens.delta, v => formatTokens(Math.round(v))), ''],
+    ];
+    for (const g of t.graders) {
+        rows.push([
+            `grader ${g.name}`,
+            g.a !== undefined ? g.a.toFixed(2) : '—',
+            g.b !== undefined ? g.b.toFixed(2) : '—',
+            g.delta !== undefined ? signed(g.delta, v => v.toFixed(2)) : '',
+            '',
+        ]);
+    }
+    for (const c of t.checks) {
+        rows.push([
+            `check ${c.name}`,
+            c.totalA !== undefined ? `${c.passedA}/${c.totalA}` : '—',
+            c.totalB !== undefined ? `${c.passedB}/${c.totalB}` : '—',
+            c.delta !== undefined ? signed(c.delta, pct) : '',
+            c.pValue !== undefined ? fmtP(c as CountDelta) : '',
+        ]);
+    }
+
+    const widths = [0, 1, 2, 3].map(i => Math.max(...rows.map(r => r[i].length)));
+    return rows.map(r => {
+        const line = [
+            r[0].padEnd(widths[0]),
+            r[1].padStart(widths[1]),
+            fmt.dim('→'),
+            r[2].padStart(widths[2]),
+            r[3].padStart(widths[3]),
+            r[4],
+        ].join('  ').trimEnd();
+        return r[4].endsWith('*') ? fmt.bold(line) : line;
+    });
+}
+
+/** Render the task-level pass-rate comparison as a markdown table */
+export function formatMarkdown(comparison: RunComparison): string {
+    const lines = [
+        '| Task | A | B | Δ Pass Rate | Successes | p | Significant |',
+        '|------|--:|--:|-----:|-----:|--:|:--:|',
+        ...comparison.tasks.map(t => [
+            t.task,
+            pct(t.passRate.a),
+            pct(t.passRate.b),
+            signed(t.passRate.delta, pct),
+            `${t.successes.passedA}/${t.successes.totalA} → ${t.successes.passedB}/${t.successes.totalB}`,
+            t.successes.pValue.toFixed(3),
+            t.successes.significant ? 'yes' : 'no',
+        ]).map(cells => `| ${cells.join(' | ')} |`),
+    ];
+    return lines.join('\n');
+}
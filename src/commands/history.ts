@@ -0,0 +1,151 @@
+/**
+ * `skillgrade history` command.
+ *
+ * Reads every saved report as a time series: pass rate, average duration and
+ * cost per task, split by agent and skill content hash (from the run
+ * manifest) so a change in results can be traced to a model or skill change.
+ * Flags series whose latest pass rate dropped by more than a given delta.
+ */
+import * as path from 'path';
+import * as os from 'os';
+import { EvalReport, RunManifest } from '../types';
+import { loadReports, loadRuns } from '../analytics/reports';
+import { fmt, header, formatCost } from '../utils/cli';
+
+export type HistoryFormat = 'table' | 'json';
+
+/** Default pass-rate drop, between the last two runs of a series, reported as a regression */
+export const DEFAULT_REGRESSION_DELTA = 0.1;
+
+/** One saved report as a point in a series */
+export interface HistoryPoint {
+    time: string;           // ISO timestamp the report was saved
+    run_id?: string;
+    pass_rate: number;
+    avg_duration_ms: number;
+    cost_usd?: number;      // agent-reported cost of the whole report
+    trials: number;
+}
+
+/** Reports of one task run by the same agent and model against the same skill content, oldest first */
+export interface HistorySeries {
+    task: string;
+    agent: string;          // 'unknown' for reports without an agent or run manifest
+    model?: string;
+    skill_hash?: string;
+    points: HistoryPoint[];
+    regression?: { from: number; to: number; delta: number };
+}
+
+export interface HistoryOptions {
+    task?: string;
+    format?: HistoryFormat;
+    delta?: number;
+}
+
+export async function runHistory(dir: string, outputDir?: string, opts: HistoryOptions = {}) {
+    const base = outputDir || path.join(os.tmpdir(), 'skillgrade');
+    const skillDir = path.join(base, path.basename(dir));
+    const resultsDir = path.join(skillDir, 'results');
+
+    const reports = (await loadReports(resultsDir, { baseline: false }))
+        .filter((r): r is typeof r & { time: string } => r.time !== undefined);
+    const runs = await loadRuns(path.join(skillDir, 'runs'));
+    const series = buildHistory(reports, runs, opts.delta ?? DEFAULT_REGRESSION_DELTA)
+        .filter(s => !opts.task || s.task === opts.task);
+
+    if (opts.format === 'json') {
+        console.log(JSON.stringify(series, null, 2));
+        return;
+    }
+
+    if (series.length === 0) {
+        console.log(`\n  ${fmt.dim(opts.task ? `No reports for "${opts.task}" in` : 'No reports found in')} ${resultsDir}\n`);
+        return;
+    }
+
+    console.log(`\n${fmt.bold('skillgrade history')}  ${fmt.dim(`${reports.length} reports from ${resultsDir}`)}`);
+    for (const task of [...new Set(series.map(s => s.task))]) {
+        header(task);
+        for (const s of series.filter(s => s.task === task)) {
+            for (const line of formatSeries(s)) {
+                console.log(`    ${line}`);
+            }
+        }
+    }
+
+    const regressions = series.filter(s => s.regression);
+    console.log();
+    if (regressions.length > 0) {
+        console.log(`  ${fmt.fail(`${regressions.length} regression${regressions.length === 1 ? '' : 's'}`)}  ${fmt.dim(`pass rate dropped more than ${((opts.delta ?? DEFAULT_REGRESSION_DELTA) * 100).toFixed(0)}% since the previous run`)}\n`);
+    } else {
+        console.log(`  ${fmt.dim('no regressions')}\n`);
+    }
+}
+
+/** Group reports into series by task, agent, model and skill hash, and flag regressions */
+export function buildHistory(
+    reports: Array<EvalReport & { time: string }>,
+    runs: Map<string, RunManifest>,
+    delta: number = DEFAULT_REGRESSION_DELTA
+): HistorySeries[] {
+    const series = new Map<string, HistorySeries>();
+    for (const report of [...reports].sort((a, b) => a.time.localeCompare(b.time))) {
+        const run = report.run_id ? runs.get(report.run_id) : undefined;
+        const agent = report.agent ?? run?.tasks.find(t => t.task === report.task)?.agent ?? 'unknown';
+        const key = JSON.stringify([report.task, agent, report.model, run?.skill_hash]);
+        if (!series.has(key)) {
+            series.set(key, { task: report.task, agent, model: report.model, skill_hash: run?.skill_hash, points: [] });
+        }
+        const trials = report.trials.length;
+        series.get(key)!.points.push({
+            time: report.time,
+            run_id: report.run_id,
+            pass_rate: report.pass_rate,
+            avg_duration_ms: report.trials.reduce((sum, t) => sum + (t.duration_ms || 0), 0) / (trials || 1),
+            cost_usd: report.usage?.cost_usd,
+            trials,
+        });
+    }
+
+    const result = [...series.values()];
+    for (const s of result) {
+        const [prev, last] = s.points.slice(-2);
+        if (last && prev.pass_rate - last.pass_rate > delta) {
+            s.regression = { from: prev.pass_rate, to: last.pass_rate, delta: last.pass_rate - prev.pass_rate };
+        }
+    }
+    return result.sort((a, b) => a.task.localeCompare(b.task) || a.agent.localeCompare(b.agent) || (a.model ?? '').localeCompare(b.model ?? ''));
+}
+
+const BARS = '▁▂▃▄▅▆▇█';
+
+/** Sparkline of values scaled to [min, max] (pass rates use a fixed 0–1 scale) */
+export function sparkline(values: number[], min: number = Math.min(...values), max: number = Math.max(...values)): string {
+    return values.map(v => {
+        const ratio = max > min ? (v - min) / (max - min) : 1;
+        return BARS[Math.round(ratio * (BARS.length - 1))];
+    }).join('');
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/** Render one series as labelled sparkline rows */
+export function formatSeries(s: HistorySeries): string[] {
+    const last = s.points[s.points.length - 1];
+    const costs = s.points.filter(p => p.cost_usd != null).map(p => p.cost_usd!);
+    const label = `${s.agent}${s.model ? ` ${s.model}` : ''}${s.skill_hash ? `  skill ${s.skill_hash.substring(0, 8)}` : ''}  ${s.points.length} run${s.points.length === 1 ? '' : 's'}`;
+    const regression = s.regression
+        ? `  ${fmt.fail(`▼ ${pct(-s.regression.delta)}`)} ${fmt.dim(`from ${pct(s.regression.from)}`)}`
+        : '';
+
+    const rows = [
+        fmt.dim(label),
+        `  ${'pass rate'.padEnd(10)} ${sparkline(s.points.map(p => p.pass_rate), 0, 1)}  ${fmt.bold(pct(last.pass_rate))}${regression}`,
+        `  ${'duration'.padEnd(10)} ${sparkline(s.points.map(p => p.avg_duration_ms))}  ${(last.avg_duration_ms / 1000).toFixed(1)}s`,
+    ];
+    if (costs.length > 0) {
+        rows.push(`  ${'cost'.padEnd(10)} ${sparkline(costs)}  ${last.cost_usd != null ? formatCost(last.cost_usd) : '—'}`);
+    }
+    return rows;
+}
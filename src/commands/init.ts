@@ -9,6 +9,10 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import { detectSkills } from '../core/skills';
 import { parseEnvFile } from '../utils/env';
+import { EVAL_SCHEMA } from '../core/schema';
+
+/** First line of generated configs: lets YAML-aware editors validate and autocomplete eval.yaml */
+const SCHEMA_COMMENT = `# yaml-language-server: $schema=${EVAL_SCHEMA.$id}`;
 
 export async function runInit(dir: string, opts: { force?: boolean } = {}) {
   const evalPath = path.join(dir, 'eval.yaml');
@@ -288,11 +292,12 @@ tasks:
 
   // Extract YAML from response (strip markdown code fences if present)
   const yamlContent = text.replace(/```ya?ml\n?/g, '').replace(/```\n?/g, '').trim();
-  return yamlContent + '\n';
+  return `${SCHEMA_COMMENT}\n${yamlContent}\n`;
 }
 
 function getInlineTemplate(): string {
-  return `version: "1"
+  return `${SCHEMA_COMMENT}
+version: "1"
 
 defaults:
   agent: gemini
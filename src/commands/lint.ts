@@ -0,0 +1,203 @@
+/**
+ * `skillgrade lint` command.
+ *
+ * Statically checks eval.yaml, its graders and the skill under test without
+ * running any agent: schema problems, file references that silently became
+ * inline text, missing workspace files, non-positive grader weights, files a
+ * deterministic grader checks that the instruction never mentions, and
+ * SKILL.md frontmatter.
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { loadEvalConfig, resolveTask, looksLikeFilePath } from '../core/config';
+import { EvalConfig, EvalTaskConfig, ResolvedTask } from '../core/config.types';
+import { detectSkills } from '../core/skills';
+import { formatIssue } from '../core/schema';
+import { fmt } from '../utils/cli';
+
+export interface LintIssue {
+    severity: 'error' | 'warning';
+    where: string;      // "eval.yaml:12:7", "task fix-lint" or a SKILL.md path
+    message: string;
+}
+
+/** Extensions of files a grader script may check for in the workspace */
+const FILE_EXTENSIONS = 'js|mjs|cjs|jsx|ts|tsx|json|md|txt|py|sh|html|css|scss|ya?ml|toml|go|rs|java|rb|csv|xml|sql|cpp|kt|swift|php|vue|svelte|ini|cfg';
+
+/**
+ * File names in a grader script: name.ext, or a .env file on its own. Tokens
+ * followed by "(", "." or "[" are code (fs.readFileSync, process.env.X,
+ * config.json["key"]), not files.
+ */
+const FILE_NAME_RE = new RegExp(`(?:[\\w./-]*\\w\\.(?:${FILE_EXTENSIONS})|(?<!\\w)(?:[\\w./-]*/)?\\.env)(?![\\w(.[])`, 'g');
+
+/** Agent Skills naming rules for the frontmatter `name` */
+const SKILL_NAME_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_SKILL_NAME = 64;
+const MAX_SKILL_DESCRIPTION = 1024;
+
+/** Lint the eval in dir and print the result; returns false when there are errors */
+export async function runLint(dir: string): Promise<boolean> {
+    console.log(`\n${fmt.bold('skillgrade lint')}  ${fmt.dim(path.join(dir, 'eval.yaml'))}\n`);
+
+    const issues = await lintEval(dir);
+    const width = Math.max(0, ...issues.map(i => i.where.length));
+    for (const issue of issues) {
+        const label = issue.severity === 'error' ? fmt.red('error  ') : fmt.cyan('warning');
+        console.log(`  ${label}  ${fmt.dim(issue.where.padEnd(width))}  ${issue.message}`);
+    }
+
+    const errors = issues.filter(i => i.severity === 'error').length;
+    const warnings = issues.length - errors;
+    if (issues.length > 0) console.log();
+    const summary = `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+    console.log(`  ${errors > 0 ? fmt.fail('FAILED') : fmt.pass('OK')}  ${fmt.dim(summary)}\n`);
+    return errors === 0;
+}
+
+/** Every problem found in the eval in dir, in file order */
+export async function lintEval(dir: string): Promise<LintIssue[]> {
+    const issues: LintIssue[] = [];
+
+    let config: EvalConfig;
+    try {
+        config = await loadEvalConfig(dir, {
+            onIssue: issue => {
+                const [where] = formatIssue(issue).split(`: ${issue.severity}: `);
+                issues.push({ severity: issue.severity, where, message: issue.message });
+            },
+        });
+    } catch (err: any) {
+        // Schema errors were collected above; anything else (missing file) is reported as is
+        if (!issues.some(i => i.severity === 'error')) {
+            issues.push({ severity: 'error', where: 'eval.yaml', message: err.message });
+        }
+        return issues;
+    }
+
+    for (const task of config.tasks) {
+        issues.push(...await lintTask(task, config, dir));
+    }
+    issues.push(...await lintSkills(config, dir));
+    return issues;
+}
+
+async function lintTask(task: EvalTaskConfig, config: EvalConfig, dir: string): Promise<LintIssue[]> {
+    const where = `task ${task.name}`;
+    const issues: LintIssue[] = [];
+    const error = (message: string) => issues.push({ severity: 'error', where, message });
+    const warning = (message: string) => issues.push({ severity: 'warning', where, message });
+
+    // File references that didn't resolve were kept as inline text
+    const resolved = await resolveTask(task, config.defaults, dir, message => error(message.replace(`task "${task.name}": `, '')));
+
+    for (const w of resolved.workspace) {
+        if (!await fs.pathExists(path.resolve(dir, w.src))) {
+            error(`workspace src "${w.src}" not found`);
+        }
+    }
+
+    if (resolved.solution && !await fs.pathExists(resolved.solution)) {
+        error(`solution "${task.solution}" not found`);
+    }
+
+    resolved.graders.forEach((g, i) => {
+        if (!(g.weight > 0)) {
+            error(`grader ${i + 1} (${g.type}) has weight ${g.weight}; weights must be positive`);
+        }
+    });
+
+    for (const [i, g] of resolved.graders.entries()) {
+        // A run that is still a bare path didn't resolve and was reported above
+        if (g.type !== 'deterministic' || !g.run || looksLikeFilePath(g.run.trim())) continue;
+        const unmentioned = (await checkedFiles(g.run, resolved, dir))
+            .filter(file => !resolved.instruction.includes(file));
+        if (unmentioned.length > 0) {
+            warning(`grader ${i + 1} (deterministic) checks ${unmentioned.join(', ')}, which the instruction never mentions`);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Files a grader script checks in the workspace: file names it mentions, minus
+ * files shipped next to eval.yaml (grader scripts, fixtures) and workspace
+ * files the agent starts with.
+ */
+async function checkedFiles(script: string, task: ResolvedTask, dir: string): Promise<string[]> {
+    const provided = new Set(task.workspace.map(w => path.basename(w.dest)));
+    const files = new Set<string>();
+    for (const token of script.match(FILE_NAME_RE) || []) {
+        if (path.isAbsolute(token) || await fs.pathExists(path.resolve(dir, token))) continue;
+        if (!provided.has(path.basename(token))) files.add(path.basename(token));
+    }
+    return [...files].sort();
+}
+
+/** Frontmatter of the skill(s) under test */
+async function lintSkills(config: EvalConfig, dir: string): Promise<LintIssue[]> {
+    const issues: LintIssue[] = [];
+    const skillFiles: string[] = [];
+
+    if (config.skill) {
+        const resolved = path.resolve(dir, config.skill);
+        const skillMd = resolved.endsWith('.md') ? resolved : path.join(resolved, 'SKILL.md');
+        if (!await fs.pathExists(skillMd)) {
+            return [{ severity: 'error', where: 'eval.yaml', message: `skill "${config.skill}" not found` }];
+        }
+        skillFiles.push(skillMd);
+    } else {
+        const skills = await detectSkills(dir);
+        if (skills.length === 0) {
+            return [{ severity: 'warning', where: 'eval.yaml', message: 'no SKILL.md found; evals will run without a skill' }];
+        }
+        skillFiles.push(...skills.map(s => path.join(s.path, 'SKILL.md')));
+    }
+
+    for (const file of skillFiles) {
+        const where = path.relative(dir, file) || 'SKILL.md';
+        for (const problem of frontmatterProblems(await fs.readFile(file, 'utf-8'), path.basename(path.dirname(file)))) {
+            issues.push({ where, ...problem });
+        }
+    }
+    return issues;
+}
+
+/** Problems with a SKILL.md's YAML frontmatter (name and description are required) */
+export function frontmatterProblems(content: string, dirName: string): Array<Omit<LintIssue, 'where'>> {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!match) {
+        return [{ severity: 'error', message: 'missing YAML frontmatter (--- name/description ---)' }];
+    }
+
+    let frontmatter: any;
+    try {
+        frontmatter = yaml.load(match[1]);
+    } catch (err: any) {
+        return [{ severity: 'error', message: `invalid frontmatter YAML: ${err.reason ?? err.message}` }];
+    }
+    if (!frontmatter || typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+        return [{ severity: 'error', message: 'frontmatter must be a YAML mapping' }];
+    }
+
+    const problems: Array<Omit<LintIssue, 'where'>> = [];
+    const { name, description } = frontmatter;
+    if (typeof name !== 'string' || !name.trim()) {
+        problems.push({ severity: 'error', message: 'frontmatter is missing "name"' });
+    } else {
+        if (!SKILL_NAME_RE.test(name) || name.length > MAX_SKILL_NAME) {
+            problems.push({ severity: 'warning', message: `name "${name}" should be lowercase letters, digits and hyphens (max ${MAX_SKILL_NAME} characters)` });
+        }
+        if (name !== dirName) {
+            problems.push({ severity: 'warning', message: `name "${name}" doesn't match its directory "${dirName}"` });
+        }
+    }
+    if (typeof description !== 'string' || !description.trim()) {
+        problems.push({ severity: 'error', message: 'frontmatter is missing "description"; agents use it to decide when to load the skill' });
+    } else if (description.length > MAX_SKILL_DESCRIPTION) {
+        problems.push({ severity: 'warning', message: `description is ${description.length} characters (max ${MAX_SKILL_DESCRIPTION})` });
+    }
+    return problems;
+}
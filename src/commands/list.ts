@@ -0,0 +1,85 @@
+/**
+ * `skillgrade list` command.
+ *
+ * Prints the tasks in eval.yaml (after includes, extends and parameter
+ * expansion) with their tags, agent, trial count and grader types. Accepts
+ * the same --eval / --tags / --exclude-tags selection as a run, so it shows
+ * exactly what a run with those flags would execute.
+ */
+import * as path from 'path';
+import { loadEvalConfig, selectTasks, unknownTags, TaskSelection } from '../core/config';
+import { EvalConfig, EvalTaskConfig } from '../core/config.types';
+import { fmt } from '../utils/cli';
+
+export type ListFormat = 'table' | 'json';
+
+export interface ListOptions extends TaskSelection {
+    format?: ListFormat;
+}
+
+/** One listed task */
+export interface ListEntry {
+    name: string;
+    tags: string[];
+    agents: string[];       // the task's agent, or every agent/model of the matrix
+    trials: number;
+    graders: string[];      // grader types, in eval.yaml order
+}
+
+export async function runList(dir: string, opts: ListOptions = {}) {
+    const config = await loadEvalConfig(dir);
+    for (const tag of unknownTags(config.tasks, opts)) {
+        console.error(`  ${fmt.red('warning')}  no eval is tagged "${tag}"`);
+    }
+    const entries = selectTasks(config.tasks, opts).map(t => listEntry(t, config));
+
+    if (opts.format === 'json') {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+    }
+
+    const count = entries.length === config.tasks.length
+        ? `${entries.length} eval${entries.length === 1 ? '' : 's'}`
+        : `${entries.length} of ${config.tasks.length} evals`;
+    console.log(`\n${fmt.bold('skillgrade list')}  ${fmt.dim(`${count} in ${path.join(dir, 'eval.yaml')}`)}\n`);
+    if (entries.length === 0) {
+        console.log(`  ${fmt.dim('No evals match the selection')}\n`);
+        return;
+    }
+    for (const line of formatList(entries)) {
+        console.log(`    ${line}`);
+    }
+    console.log();
+}
+
+export function listEntry(task: EvalTaskConfig, config: EvalConfig): ListEntry {
+    return {
+        name: task.name,
+        tags: task.tags ?? [],
+        agents: config.matrix
+            ? config.matrix.map(m => m.model ? `${m.agent}:${m.model}` : m.agent)
+            : [task.agent || config.defaults.agent],
+        trials: task.trials ?? config.defaults.trials,
+        graders: task.graders.map(g => g.type),
+    };
+}
+
+const COLUMNS = ['Name', 'Tags', 'Agent', 'Trials', 'Graders'];
+
+/** Render entries as aligned terminal rows (header first) */
+export function formatList(entries: ListEntry[]): string[] {
+    const rows = entries.map(e => [
+        e.name,
+        e.tags.join(', ') || '—',
+        e.agents.join(', '),
+        String(e.trials),
+        e.graders.join(', '),
+    ]);
+    const widths = COLUMNS.map((c, i) => Math.max(c.length, ...rows.map(r => r[i].length)));
+    const line = (cells: string[]) => cells
+        .map((c, i) => i === 3 ? c.padStart(widths[i]) : c.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd();
+
+    return [fmt.dim(line(COLUMNS)), ...rows.map(line)];
+}
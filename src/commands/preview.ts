@@ -1,18 +1,24 @@
 /**
  * `skillgrade preview` command.
  *
- * Opens the CLI or browser results viewer.
+ * Opens the CLI or browser results viewer, or exports the browser viewer as
+ * a self-contained HTML file.
  */
 import * as path from 'path';
 import * as os from 'os';
 import { runCliPreview } from '../reporters/cli';
-import { runBrowserPreview } from '../reporters/browser';
+import { runBrowserPreview, exportHtmlReport } from '../reporters/browser';
+import { fmt } from '../utils/cli';
 
-export async function runPreview(dir: string, mode: 'cli' | 'browser', outputDir?: string) {
+export async function runPreview(dir: string, mode: 'cli' | 'browser', outputDir?: string, exportFile?: string) {
     const base = outputDir || path.join(os.tmpdir(), 'skillgrade');
     const resultsDir = path.join(base, path.basename(dir), 'results');
 
-    if (mode === 'browser') {
+    if (exportFile) {
+        const outFile = path.resolve(dir, exportFile);
+        const count = await exportHtmlReport(resultsDir, outFile);
+        console.log(`\n  ${fmt.dim('exported')}  ${count} report${count === 1 ? '' : 's'} to ${outFile}\n`);
+    } else if (mode === 'browser') {
         await runBrowserPreview(resultsDir);
     } else {
         await runCliPreview(resultsDir);
@@ -6,34 +6,139 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
-import { loadEvalConfig, resolveTask } from '../core/config';
+import { createHash } from 'crypto';
+import { loadEvalConfig, resolveTask, parseMatrixEntry, selectTasks, unknownTags } from '../core/config';
 import { detectSkills } from '../core/skills';
 import { DockerProvider } from '../providers/docker';
 import { LocalProvider } from '../providers/local';
 import { EvalRunner, EvalRunOptions } from '../evalRunner';
-import { createAgent, AgentConfig } from '../agents/registry';
-import { BaseAgent, EvalReport } from '../types';
-import { ResolvedTask } from '../core/config.types';
+import { trialPassed } from '../analytics/engine';
+import { writeJUnitReport } from '../reporters/junit';
+import { writeMarkdownReport } from '../reporters/markdown';
+import { createRunId, hashFile, hashDirectories, gitRevision, skillgradeVersion, writeManifest } from '../core/manifest';
+import { createAgent, getAgentNames, AgentConfig } from '../agents/registry';
+import { BaseAgent, EvalReport, FailedEval, RunManifest } from '../types';
+import { ResolvedTask, MatrixEntry } from '../core/config.types';
 import { parseEnvFile } from '../utils/env';
-import { fmt, header, kv, trialRow, resultsSummary, validationResult } from '../utils/cli';
+import { fmt, header, kv, trialRow, resultsSummary, baselineSummary, validationResult, leaderboard, formatCost } from '../utils/cli';
+
+/**
+ * Pass-rate estimate checked against the threshold:
+ *   point — the observed pass rate
+ *   lower — strict: the 95% lower bound must clear the threshold
+ *   upper — lenient: fail only when even the 95% upper bound is below it
+ */
+export type CiBound = 'point' | 'lower' | 'upper';
+
+/** Extra report formats written after all tasks have run */
+export type ReporterName = 'junit' | 'markdown';
+export const REPORTERS: ReporterName[] = ['junit', 'markdown'];
+
+/** Trial cap for --adaptive when --max-trials is not given */
+const DEFAULT_MAX_TRIALS = 30;
 
 interface RunOptions {
-    eval?: string;       // run specific eval(s) by name (comma-separated)
+    eval?: string;       // run specific eval(s) by name (comma-separated, * and ? wildcards)
+    tags?: string[];     // run only evals with at least one of these tags
+    excludeTags?: string[];   // skip evals with any of these tags
     trials?: number;     // override trial count
     parallel?: number;
     validate?: boolean;
+    baseline?: boolean;  // also run every task without skills and report normalized gain
+    resume?: boolean;    // continue an interrupted run from its checkpointed trials
+    adaptive?: boolean;  // keep adding trials until the pass rate is decisively above/below threshold
+    maxTrials?: number;  // cap on trials in adaptive mode (default: 30)
     ci?: boolean;
     threshold?: number;
+    ciBound?: CiBound;   // which pass-rate estimate --ci compares to the threshold (default: point)
     preset?: 'smoke' | 'reliable' | 'regression';
-    agent?: string;      // override agent (gemini|claude|codex|acp|openode)
+    reporters?: ReporterName[];   // extra report formats (junit|markdown)
+    junitFile?: string;  // JUnit XML path (default: junit.xml in the eval directory)
+    markdownFile?: string;    // markdown summary path (default: skillgrade-summary.md in the eval directory)
+    agent?: string;      // override agent(s): comma-separated agent or agent:model entries
     provider?: string;   // override provider (docker|local)
     output?: string;     // output directory for reports and temp files
-    grader?: string;     // filter graders by type (deterministic|llm_rubric)
+    grader?: string;     // filter graders by type (deterministic|llm_rubric|skill_triggered)
     acpCommand?: string; // ACP agent command (e.g., "gemini --acp")
     openCodeAgent?: string;   // OpenCode agent (build|plan|explore)
     openCodeModel?: string;   // OpenCode model (provider/model format)
 }
 
+/** Resolve a skill directory (or its SKILL.md) relative to the eval dir; undefined if missing */
+async function resolveSkillDir(dir: string, skillPath: string): Promise<string | undefined> {
+    const resolved = path.resolve(dir, skillPath);
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (!stat) return undefined;
+    return stat.isFile() ? path.dirname(resolved) : resolved;
+}
+
+function thresholdEstimate(report: EvalReport, bound: CiBound): number {
+    if (bound === 'point' || !report.confidence) return report.pass_rate;
+    return report.confidence.pass_rate[bound];
+}
+
+/**
+ * Fingerprint of everything that affects a task's trial results, including
+ * the content of the skills and distractor skills. A checkpoint is only
+ * resumed when the hash matches; the trial count is left out so a resumed run
+ * can also be extended.
+ */
+export async function checkpointHash(resolved: ResolvedTask, entry: MatrixEntry, providerName: string, skillsPaths: string[], evalOpts: EvalRunOptions): Promise<string> {
+    const fingerprint = {
+        instruction: resolved.instruction,
+        workspace: resolved.workspace,
+        graders: evalOpts.graders,
+        graderModel: evalOpts.graderModel,
+        passThreshold: evalOpts.passThreshold,
+        timeout: resolved.timeout,
+        docker: resolved.docker,
+        environment: resolved.environment,
+        agent: entry.agent,
+        model: entry.model,
+        provider: providerName,
+        skills: skillsPaths,
+        distractors: evalOpts.distractorSkills,
+        skillContent: await hashDirectories([...skillsPaths, ...(evalOpts.distractorSkills || [])]),
+    };
+    return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex').slice(0, 12);
+}
+
+/** Agent picked from the available API keys when exactly one is set */
+function detectAgent(env: Record<string, string>): string | undefined {
+    const keys: Array<[string, string]> = [['GEMINI_API_KEY', 'gemini'], ['ANTHROPIC_API_KEY', 'claude'], ['OPENAI_API_KEY', 'codex']];
+    const available = keys.filter(([key]) => !!env[key]);
+    return available.length === 1 ? available[0][1] : undefined;
+}
+
+/** "agent" or "agent model", as shown in headers and the leaderboard */
+function matrixLabel(entry: MatrixEntry): string {
+    return entry.model ? `${entry.agent} ${entry.model}` : entry.agent;
+}
+
+function agentConfig(entry: MatrixEntry, resolved: ResolvedTask, env: Record<string, string>, opts: RunOptions): AgentConfig {
+    const config: AgentConfig = { model: entry.model };
+    if (entry.agent === 'acp') {
+        const acpCommand = opts.acpCommand || resolved.acp?.command;
+        if (!acpCommand) {
+            throw new Error('ACP agent requires a command. Specify via --acp-command or acp.command in eval.yaml');
+        }
+        config.acp = {
+            command: acpCommand,
+            env: resolved.acp?.env,
+            apiKey: env.GEMINI_API_KEY || env.ANTHROPIC_API_KEY || env.OPENAI_API_KEY,
+        };
+    } else if (entry.agent === 'opencode') {
+        config.opencode = {};
+        if (opts.openCodeAgent) {
+            config.opencode.agent = opts.openCodeAgent;
+        }
+        if (opts.openCodeModel) {
+            config.opencode.model = opts.openCodeModel;
+        }
+    }
+    return config;
+}
+
 async function loadEnvFile(filePath: string): Promise<Record<string, string>> {
     if (await fs.pathExists(filePath)) {
         return parseEnvFile(await fs.readFile(filePath, 'utf-8'));
@@ -61,12 +166,8 @@ export async function runEvals(dir: string, opts: RunOptions) {
     // Detect skills
     let skillsPaths: string[] = [];
     if (config.skill) {
-        let skillDir = path.resolve(dir, config.skill);
-        const stat = await fs.stat(skillDir).catch(() => null);
-        if (stat?.isFile()) {
-            skillDir = path.dirname(skillDir);
-        }
-        if (stat && await fs.pathExists(skillDir)) {
+        const skillDir = await resolveSkillDir(dir, config.skill);
+        if (skillDir) {
             skillsPaths = [skillDir];
             kv('skill', path.relative(dir, skillDir) || '.');
         } else {
@@ -80,16 +181,35 @@ export async function runEvals(dir: string, opts: RunOptions) {
         }
     }
 
+    if (opts.baseline && !opts.validate && skillsPaths.length === 0) {
+        console.error(`  ${fmt.red('error')}  --baseline requires a skill to compare against`);
+        throw new Error('No skill found for --baseline comparison');
+    }
+
     // Filter evals
-    let tasksToRun = config.tasks;
-    if (opts.eval) {
-        const evalNames = opts.eval.split(',').map(s => s.trim());
-        tasksToRun = config.tasks.filter(t => evalNames.includes(t.name));
-        if (tasksToRun.length === 0) {
+    const selection = { eval: opts.eval, tags: opts.tags, excludeTags: opts.excludeTags };
+    for (const tag of unknownTags(config.tasks, selection)) {
+        console.error(`  ${fmt.red('warning')}  no eval is tagged "${tag}"`);
+    }
+    const tasksToRun = selectTasks(config.tasks, selection);
+    if (tasksToRun.length === 0) {
+        if (opts.eval && selectTasks(config.tasks, { eval: opts.eval }).length === 0) {
             console.error(`  ${fmt.red('error')}  eval "${opts.eval}" not found`);
             console.log(`  ${fmt.dim('available:')} ${config.tasks.map(t => t.name).join(', ')}`);
             throw new Error(`Eval "${opts.eval}" not found`);
         }
+        throw new Error('No evals match the selected tags');
+    }
+
+    // Agent matrix: --agent=a,b:model overrides eval.yaml's matrix
+    const matrix = opts.agent ? opts.agent.split(',').map(parseMatrixEntry) : config.matrix;
+    const unknownAgent = matrix?.find(m => !getAgentNames().includes(m.agent));
+    if (unknownAgent) {
+        console.error(`  ${fmt.red('error')}  unknown agent "${unknownAgent.agent}" (expected ${getAgentNames().join('|')})`);
+        throw new Error(`Unknown agent "${unknownAgent.agent}"`);
+    }
+    if (matrix && matrix.length > 1) {
+        kv('matrix', matrix.map(matrixLabel).join(', '));
     }
 
     // Output directory
@@ -100,68 +220,69 @@ export async function runEvals(dir: string, opts: RunOptions) {
     await fs.ensureDir(resultsDir);
     kv('output', outputDir);
 
+    // Run manifest: links every report of this invocation to its options, config and code revision
+    const git = await gitRevision(dir);
+    const manifest: RunManifest = {
+        run_id: createRunId(),
+        started_at: new Date().toISOString(),
+        skillgrade_version: skillgradeVersion(),
+        options: { ...opts },
+        eval_yaml_hash: await hashFile(path.join(dir, 'eval.yaml')),
+        skills: skillsPaths.map(p => path.basename(p)),
+        skill_hash: skillsPaths.length > 0 ? await hashDirectories(skillsPaths) : undefined,
+        git_commit: git?.commit,
+        git_dirty: git?.dirty,
+        tasks: [],
+    };
+    await writeManifest(outputDir, manifest);
+    kv('run', manifest.run_id);
+
     // Track CI results
     const reports: EvalReport[] = [];
+    const failed: FailedEval[] = [];    // evaluations that threw before producing a report
     let allPassed = true;
+    let totalCost = 0;
+    let costedReports = 0;
 
     // Run each task
     for (const taskDef of tasksToRun) {
         const resolved = await resolveTask(taskDef, config.defaults, dir);
-        const trials = opts.trials ?? resolved.trials;
+        // Adaptive mode starts from the normal trial count and may go up to --max-trials
+        const minTrials = opts.trials ?? resolved.trials;
+        const adaptive = opts.adaptive && !opts.validate;
+        const trials = adaptive ? Math.max(opts.maxTrials ?? DEFAULT_MAX_TRIALS, minTrials) : minTrials;
         const parallel = opts.parallel ?? 1;
 
-        // Create a temp task directory for Docker builds
-        const tmpTaskDir = path.join(outputDir, 'tmp', resolved.name);
-        await prepareTempTaskDir(resolved, dir, tmpTaskDir);
+        // Distractor skills compete with the skill under test for the agent's attention
+        const distractorSkills: string[] = [];
+        for (const p of taskDef.distractor_skills ?? config.distractor_skills ?? []) {
+            const skillDir = await resolveSkillDir(dir, p);
+            if (!skillDir) {
+                console.error(`  ${fmt.red('warning')}  distractor skill not found: ${p}`);
+            } else if (!distractorSkills.includes(skillDir)) {
+                distractorSkills.push(skillDir);
+            }
+        }
+        const taskSkillsPaths = skillsPaths.filter(p => !distractorSkills.includes(p));
 
         // Build eval options — pass resolved content directly
-        const evalOpts: EvalRunOptions = {
+        const taskOpts: EvalRunOptions = {
             instruction: resolved.instruction,
             graders: opts.grader
                 ? resolved.graders.filter(g => g.type === opts.grader)
                 : resolved.graders,
             timeoutSec: resolved.timeout,
+            passThreshold: resolved.pass_threshold,
             graderModel: resolved.grader_model,
             environment: resolved.environment,
+            distractorSkills,
+            runId: manifest.run_id,
         };
-
-        // Pick agent: CLI flag > task-level override > auto-detect from API key > default
-        let agentName = opts.agent || resolved.agent;
-        if (!opts.agent && !taskDef.agent) {
-            // No explicit override — auto-detect from available API keys
-            const hasGemini = !!env.GEMINI_API_KEY;
-            const hasAnthropic = !!env.ANTHROPIC_API_KEY;
-            const hasOpenAI = !!env.OPENAI_API_KEY;
-            const keyCount = [hasGemini, hasAnthropic, hasOpenAI].filter(Boolean).length;
-            if (keyCount === 1) {
-                if (hasAnthropic) agentName = 'claude';
-                else if (hasOpenAI) agentName = 'codex';
-                else if (hasGemini) agentName = 'gemini';
-            }
+        if (adaptive) {
+            taskOpts.adaptive = { threshold: opts.threshold ?? config.defaults.threshold, minTrials };
         }
-        const providerName = opts.provider || resolved.provider;
 
-        // Build agent config
-        const agentConfig: AgentConfig = {};
-        if (agentName === 'acp') {
-            const acpCommand = opts.acpCommand || resolved.acp?.command;
-            if (!acpCommand) {
-                throw new Error('ACP agent requires a command. Specify via --acp-command or acp.command in eval.yaml');
-            }
-            agentConfig.acp = {
-                command: acpCommand,
-                env: resolved.acp?.env,
-                apiKey: env.GEMINI_API_KEY || env.ANTHROPIC_API_KEY || env.OPENAI_API_KEY,
-            };
-        } else if (agentName === 'opencode') {
-            agentConfig.opencode = {};
-            if (opts.openCodeAgent) {
-                agentConfig.opencode.agent = opts.openCodeAgent;
-            }
-            if (opts.openCodeModel) {
-                agentConfig.opencode.model = opts.openCodeModel;
-            }
-        }
+        const providerName = opts.provider || resolved.provider;
 
         // Pick provider
         const provider = providerName === 'docker'
@@ -170,6 +291,9 @@ export async function runEvals(dir: string, opts: RunOptions) {
 
         const runner = new EvalRunner(provider, resultsDir);
 
+        // Create a temp task directory for Docker builds
+        const tmpTaskDir = path.join(outputDir, 'tmp', resolved.name);
+
         if (opts.validate) {
             // Validation mode
             if (!resolved.solution) {
@@ -177,6 +301,7 @@ export async function runEvals(dir: string, opts: RunOptions) {
                 continue;
             }
 
+            await prepareTempTaskDir(resolved, dir, tmpTaskDir);
             header(`validate: ${resolved.name}`);
 
             const solveAgent = {
@@ -186,27 +311,56 @@ export async function runEvals(dir: string, opts: RunOptions) {
                 }
             } as BaseAgent;
 
-            const report = await runner.runEval(solveAgent, tmpTaskDir, skillsPaths, evalOpts, 1, env);
-            const passed = report.trials[0].reward >= 0.5;
+            const report = await runner.runEval(solveAgent, tmpTaskDir, taskSkillsPaths, taskOpts, 1, env);
+            const passed = trialPassed(report.trials[0]);
+            manifest.tasks.push({ task: resolved.name, agent: 'solution', provider: providerName, trials: 1, status: 'completed', pass_rate: report.pass_rate });
 
             validationResult(passed, report.trials[0].reward, report.trials[0].grader_results.map(gr => ({
                 type: gr.grader_type,
                 score: gr.score,
-                details: gr.details
+                details: gr.details,
+                checks: gr.checks,
             })));
 
             if (!passed) allPassed = false;
-        } else {
-            // Normal eval mode
-            const agent = createAgent(agentName, agentConfig);
 
-            header(resolved.name);
-            console.log(`    ${fmt.dim('agent')} ${agentName}  ${fmt.dim('provider')} ${providerName}  ${fmt.dim('trials')} ${trials}${parallel > 1 ? `  ${fmt.dim('parallel')} ${parallel}` : ''}`);
+            // Cleanup temp dir
+            try { await fs.remove(tmpTaskDir); } catch { /* ignore cleanup errors */ }
+            continue;
+        }
+
+        // Agent/model combinations: --agent list > eval.yaml matrix > task-level agent > auto-detect > default
+        const combos: MatrixEntry[] = matrix ?? [{ agent: taskDef.agent ? resolved.agent : detectAgent(env) ?? resolved.agent }];
+        const taskReports: Array<{ entry: MatrixEntry; report?: EvalReport }> = [];
+
+        for (const entry of combos) {
+            const agentName = entry.agent;
+            const evalOpts: EvalRunOptions = { ...taskOpts, agent: agentName, model: entry.model };
+
+            // Checkpoint completed trials so an interrupted run can be resumed
+            const hash = await checkpointHash(resolved, entry, providerName, taskSkillsPaths, evalOpts);
+            evalOpts.checkpoint = path.join(outputDir, 'checkpoints', `${resolved.name}_${hash}.jsonl`);
+            evalOpts.resume = opts.resume;
+
+            // The Dockerfile installs the CLI of the agent being run
+            await prepareTempTaskDir({ ...resolved, agent: agentName }, dir, tmpTaskDir);
+
+            const agent = createAgent(agentName, agentConfig(entry, resolved, env, opts));
+
+            header(combos.length > 1 ? `${resolved.name}  ${fmt.dim(matrixLabel(entry))}` : resolved.name);
+            console.log(`    ${fmt.dim('agent')} ${agentName}${entry.model ? `  ${fmt.dim('model')} ${entry.model}` : ''}  ${fmt.dim('provider')} ${providerName}  ${fmt.dim('trials')} ${adaptive ? `${minTrials}–${trials} adaptive` : trials}${parallel > 1 ? `  ${fmt.dim('parallel')} ${parallel}` : ''}${opts.baseline ? `  ${fmt.dim('baseline')}` : ''}${distractorSkills.length > 0 ? `  ${fmt.dim('distractors')} ${distractorSkills.length}` : ''}`);
             console.log();
 
             try {
-                const report = await runner.runEval(agent, tmpTaskDir, skillsPaths, evalOpts, trials, env, parallel);
-                reports.push(report);
+                const baseline = opts.baseline
+                    ? await runner.runBaselineEval(agent, tmpTaskDir, taskSkillsPaths, evalOpts, trials, env, parallel)
+                    : undefined;
+                const report = baseline
+                    ? baseline.with_skill
+                    : await runner.runEval(agent, tmpTaskDir, taskSkillsPaths, evalOpts, trials, env, parallel);
+                reports.push(runner.sanitize(report, env));
+                taskReports.push({ entry, report });
+                manifest.tasks.push({ task: resolved.name, agent: agentName, model: entry.model, provider: providerName, trials: report.trials.length, status: 'completed', pass_rate: report.pass_rate });
 
                 // LLM grader reasoning (condensed)
                 for (const trial of report.trials) {
@@ -215,29 +369,91 @@ export async function runEvals(dir: string, opts: RunOptions) {
                     }
                 }
 
-                resultsSummary(report.pass_rate, report.pass_at_k, report.pass_pow_k, trials, opts.preset);
+                resultsSummary(report.pass_rate, report.pass_at_k, report.pass_pow_k, report.trials.length, opts.preset, {
+                    skillTriggerRate: report.skill_trigger_rate,
+                    tools: report.tool_usage,
+                    selection: report.skill_selection,
+                    tokens: report.usage,
+                }, report.confidence, {
+                    passed: report.trials.filter(t => trialPassed(t)).length,
+                    threshold: resolved.pass_threshold,
+                });
+
+                for (const r of baseline ? [baseline.with_skill, baseline.without_skill] : [report]) {
+                    if (r.usage?.cost_usd != null) {
+                        totalCost += r.usage.cost_usd;
+                        costedReports++;
+                    }
+                }
 
-                if (report.pass_rate < (opts.threshold ?? config.defaults.threshold)) {
+                if (baseline) {
+                    baselineSummary(baseline.with_skill.pass_rate, baseline.without_skill.pass_rate, baseline.normalized_gain);
+                }
+
+                if (thresholdEstimate(report, opts.ciBound ?? 'point') < (opts.threshold ?? config.defaults.threshold)) {
                     allPassed = false;
                 }
-            } catch (err) {
+            } catch (err: any) {
                 console.error(`\n  ${fmt.fail('error')}  evaluation failed: ${err}\n`);
+                // Written to junit.xml and the markdown summary, so scrubbed like saved reports
+                failed.push({ task: resolved.name, agent: agentName, model: entry.model, error: runner.redact(err?.message || String(err), env) });
+                taskReports.push({ entry });
+                manifest.tasks.push({ task: resolved.name, agent: agentName, model: entry.model, provider: providerName, trials, status: 'failed' });
                 allPassed = false;
             }
+            await writeManifest(outputDir, manifest);
+
+            // Cleanup temp dir
+            try { await fs.remove(tmpTaskDir); } catch { /* ignore cleanup errors */ }
         }
 
-        // Cleanup temp dir
-        try { await fs.remove(tmpTaskDir); } catch { /* ignore cleanup errors */ }
+        if (combos.length > 1) {
+            leaderboard(resolved.name, taskReports.map(({ entry, report }) => report
+                ? {
+                    label: matrixLabel(entry),
+                    passRate: report.pass_rate,
+                    passAtK: report.pass_at_k,
+                    trials: report.trials.length,
+                    avgDurationMs: report.trials.reduce((sum, t) => sum + (t.duration_ms || 0), 0) / (report.trials.length || 1),
+                    costUsd: report.usage?.cost_usd,
+                }
+                : { label: matrixLabel(entry), failed: true }));
+        }
+    }
+
+    if (costedReports > 0) {
+        console.log();
+        kv('total spend', `${formatCost(totalCost)}  ${fmt.dim(`agent-reported, ${costedReports} report${costedReports === 1 ? '' : 's'}`)}`);
+    }
+
+    manifest.finished_at = new Date().toISOString();
+    await writeManifest(outputDir, manifest);
+
+    // Extra report formats (written before the CI check so failures are reported too)
+    if (opts.reporters?.includes('junit')) {
+        const junitFile = path.resolve(dir, opts.junitFile || 'junit.xml');
+        await writeJUnitReport(reports, junitFile, failed);
+        kv('junit', junitFile);
+    }
+    if (opts.reporters?.includes('markdown')) {
+        const markdownFile = path.resolve(dir, opts.markdownFile || 'skillgrade-summary.md');
+        const stepSummary = await writeMarkdownReport(reports, markdownFile, {
+            title: `skillgrade: ${skillName}`,
+            threshold: opts.threshold ?? config.defaults.threshold,
+            passed: r => thresholdEstimate(r, opts.ciBound ?? 'point') >= (opts.threshold ?? config.defaults.threshold),
+        }, failed);
+        kv('markdown', `${markdownFile}${stepSummary ? `  ${fmt.dim('+ GITHUB_STEP_SUMMARY')}` : ''}`);
     }
 
     // CI mode: exit with appropriate code
     if (opts.ci) {
         const threshold = opts.threshold ?? config.defaults.threshold;
+        const bound = opts.ciBound && opts.ciBound !== 'point' ? `  ${fmt.dim(`(${opts.ciBound} 95% bound)`)}` : '';
         if (!allPassed) {
-            console.error(`\n  ${fmt.fail('CI FAILED')}  below threshold ${(threshold * 100).toFixed(0)}%\n`);
+            console.error(`\n  ${fmt.fail('CI FAILED')}  below threshold ${(threshold * 100).toFixed(0)}%${bound}\n`);
             throw new Error('CI check failed');
         }
-        console.log(`\n  ${fmt.pass('CI PASSED')}  above threshold ${(threshold * 100).toFixed(0)}%\n`);
+        console.log(`\n  ${fmt.pass('CI PASSED')}  above threshold ${(threshold * 100).toFixed(0)}%${bound}\n`);
     }
 }
 
@@ -285,6 +501,15 @@ async function prepareTempTaskDir(resolved: ResolvedTask, baseDir: string, tmpDi
         }
     }
 
+    // Write each skill_triggered grader's expectations
+    await fs.ensureDir(path.join(tmpDir, 'expectations'));
+    const skillGraders = resolved.graders.filter(g => g.type === 'skill_triggered');
+    for (let i = 0; i < skillGraders.length; i++) {
+        const { skills, forbidden_skills, min_source } = skillGraders[i];
+        const filename = i === 0 ? 'skills.json' : `skills_${i}.json`;
+        await fs.writeJSON(path.join(tmpDir, 'expectations', filename), { skills, forbidden_skills, min_source }, { spaces: 2 });
+    }
+
     // Write Dockerfile
     await fs.ensureDir(path.join(tmpDir, 'environment'));
     let dockerfileContent = `FROM ${resolved.docker.base}\n\nWORKDIR /workspace\n\n`;
@@ -12,10 +12,11 @@ import {
     WorkspaceMapping,
     EnvironmentConfig,
     AcpConfig,
+    MatrixEntry,
+    TaskVariant,
 } from './config.types';
-
-// We use a simple YAML parser — js-yaml is the standard
-// For now, we'll use a lightweight approach: JSON-compatible YAML subset
+import { checkEvalYaml, formatIssue, didYouMean, ConfigIssue, JsonSchema, EVAL_SCHEMA, INCLUDE_SCHEMA } from './schema';
+import { fmt } from '../utils/cli';
 
 const DEFAULT_CONFIG: EvalDefaults = {
     agent: 'gemini',
@@ -23,6 +24,7 @@ const DEFAULT_CONFIG: EvalDefaults = {
     trials: 5,
     timeout: 300,
     threshold: 0.8,
+    pass_threshold: 0.5,
     docker: {
         base: 'node:20-slim',
     },
@@ -32,34 +34,172 @@ const DEFAULT_CONFIG: EvalDefaults = {
     },
 };
 
+export interface LoadOptions {
+    /** Receives every schema issue (default: print warnings); errors are also thrown */
+    onIssue?: (issue: ConfigIssue) => void;
+}
+
 /**
  * Load and parse eval.yaml from a directory.
+ *
+ * Every schema error is reported at once, with its line and column; unknown
+ * keys are printed as warnings and otherwise ignored. Files listed in
+ * `include:` are merged in and `extends:` is applied before the tasks are
+ * typed.
  */
-export async function loadEvalConfig(dir: string): Promise<EvalConfig> {
+export async function loadEvalConfig(dir: string, opts: LoadOptions = {}): Promise<EvalConfig> {
     const yamlPath = path.join(dir, 'eval.yaml');
     if (!await fs.pathExists(yamlPath)) {
         throw new Error(`No eval.yaml found in ${dir}`);
     }
 
-    // Dynamically import js-yaml
-    let yaml: any;
-    try {
-        yaml = require('js-yaml');
-    } catch {
-        throw new Error('js-yaml is required. Run: npm install js-yaml');
+    const onIssue = opts.onIssue ?? ((issue: ConfigIssue) => {
+        if (issue.severity === 'warning') console.warn(`  ${formatIssue(issue)}`);
+    });
+    const raw = await readConfigFile(yamlPath, 'eval.yaml', EVAL_SCHEMA, onIssue);
+    const merged = await applyIncludes(raw, yamlPath, dir, onIssue, [yamlPath]);
+    return validateConfig({ ...merged, tasks: applyExtends(merged.tasks) });
+}
+
+/** Parse and schema-check one config file; throws with every error in it */
+async function readConfigFile(file: string, label: string, schema: JsonSchema, onIssue: (issue: ConfigIssue) => void): Promise<any> {
+    const { raw, issues } = checkEvalYaml(await fs.readFile(file, 'utf-8'), schema);
+    const labeled = issues.map(issue => label === 'eval.yaml' ? issue : { ...issue, file: label });
+    labeled.forEach(onIssue);
+    const errors = labeled.filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+        throw new Error(`${label} has ${errors.length} error${errors.length === 1 ? '' : 's'}:\n${errors.map(e => `  ${formatIssue(e)}`).join('\n')}`);
+    }
+    return raw;
+}
+
+/**
+ * Merge the files listed in raw's `include:`, recursively and in order: their
+ * defaults are overridden by raw's, and their tasks come before raw's. Paths
+ * in tasks are rebased so they resolve from the eval directory.
+ */
+async function applyIncludes(raw: any, file: string, evalDir: string, onIssue: (issue: ConfigIssue) => void, stack: string[]): Promise<any> {
+    const { include, ...config } = raw ?? {};
+    let defaults: any = {};
+    const tasks: any[] = [];
+
+    for (const entry of pathList(include) ?? []) {
+        const target = path.resolve(path.dirname(file), entry);
+        const label = path.relative(evalDir, target);
+        if (stack.includes(target)) {
+            throw new Error(`include cycle: ${[...stack, target].map(f => path.relative(evalDir, f)).join(' → ')}`);
+        }
+        if (!await fs.pathExists(target)) {
+            throw new Error(`${path.relative(evalDir, file)}: included file "${entry}" not found`);
+        }
+        const included = await applyIncludes(
+            await readConfigFile(target, label, INCLUDE_SCHEMA, onIssue),
+            target, evalDir, onIssue, [...stack, target]
+        );
+        defaults = mergeDefaults(defaults, included.defaults);
+        tasks.push(...included.tasks);
+    }
+
+    const own = await Promise.all((config.tasks ?? []).map((t: any) => rebaseTask(t, path.dirname(file), evalDir)));
+    return { ...config, defaults: mergeDefaults(defaults, config.defaults), tasks: [...tasks, ...own] };
+}
+
+/** Later defaults win; docker, environment and acp are merged key by key */
+function mergeDefaults(base: any, over: any): any {
+    if (!base) return over;
+    if (!over) return base;
+    const merged = { ...base, ...over };
+    for (const key of ['docker', 'environment', 'acp']) {
+        if (base[key] || over[key]) merged[key] = { ...base[key], ...over[key] };
+    }
+    return merged;
+}
+
+/**
+ * Make a task's file paths relative to the eval directory instead of the
+ * directory of the file that defines it. instruction, run and rubric are
+ * rebased when they name an existing file or look like a file path, which
+ * includes paths with parameter placeholders ("prompts/fix-{{file}}.md")
+ * that only name a file once expanded; otherwise they're inline text.
+ */
+async function rebaseTask(task: any, fromDir: string, evalDir: string): Promise<any> {
+    if (path.resolve(fromDir) === path.resolve(evalDir)) return task;
+    const rebase = (p: string) => path.relative(evalDir, path.resolve(fromDir, p));
+    const isRef = async (ref: string) => !ref.includes('\n')
+        && (looksLikeFilePath(ref.replace(PLACEHOLDER_RE, 'x')) || await fs.pathExists(path.resolve(fromDir, ref)));
+    const rebaseRef = async (value?: string) =>
+        typeof value === 'string' && await isRef(value.trim()) ? rebase(value.trim()) : value;
+
+    // Only keys the task sets: an undefined one would hide the value it extends
+    return {
+        ...task,
+        ...(task.instruction !== undefined && { instruction: await rebaseRef(task.instruction) }),
+        ...(task.solution !== undefined && { solution: rebase(task.solution) }),
+        ...(task.distractor_skills !== undefined && { distractor_skills: pathList(task.distractor_skills)!.map(rebase) }),
+        ...(task.workspace !== undefined && {
+            workspace: task.workspace.map((w: any) => typeof w === 'string'
+                ? { src: rebase(w), dest: path.basename(w) }
+                : { ...w, src: rebase(w.src) }),
+        }),
+        ...(task.graders !== undefined && {
+            graders: await Promise.all(task.graders.map(async (g: any) => ({
+                ...g,
+                ...(g.run !== undefined && { run: await rebaseRef(g.run) }),
+                ...(g.rubric !== undefined && { rubric: await rebaseRef(g.rubric) }),
+            }))),
+        }),
+    };
+}
+
+/**
+ * Apply `extends:` and drop abstract tasks. A task inherits every setting of
+ * the task it extends (which may itself extend another); its own settings
+ * win, docker/environment/parameters are merged key by key, and workspace,
+ * graders and tags are appended to the inherited ones.
+ */
+function applyExtends(tasks: any[]): any[] {
+    const byName = new Map<string, any>();
+    for (const task of tasks) {
+        if (byName.has(task.name)) throw new Error(`task name "${task.name}" is used more than once`);
+        byName.set(task.name, task);
     }
 
-    const content = await fs.readFile(yamlPath, 'utf-8');
-    const raw = yaml.load(content) as any;
+    const inherit = (task: any, chain: string[]): any => {
+        if (!task.extends) return task;
+        if (chain.includes(task.extends)) {
+            throw new Error(`task "${chain[0]}": extends cycle ${[...chain, task.extends].join(' → ')}`);
+        }
+        const base = byName.get(task.extends);
+        if (!base) {
+            throw new Error(`task "${task.name}" extends unknown task "${task.extends}"${didYouMean(task.extends, [...byName.keys()])}`);
+        }
+        const { name, abstract, extends: _, ...inherited } = inherit(base, [...chain, base.name]);
+        const merge = (key: string) => inherited[key] || task[key] ? { ...inherited[key], ...task[key] } : undefined;
+        return {
+            ...inherited,
+            ...task,
+            workspace: [...(inherited.workspace ?? []), ...(task.workspace ?? [])],
+            graders: [...(inherited.graders ?? []), ...(task.graders ?? [])],
+            tags: inherited.tags || task.tags ? [...new Set([...(inherited.tags ?? []), ...(task.tags ?? [])])] : undefined,
+            docker: merge('docker'),
+            environment: merge('environment'),
+            parameters: merge('parameters'),
+        };
+    };
 
-    return validateConfig(raw);
+    const result = tasks.map(t => inherit(t, [t.name])).filter(t => !t.abstract);
+    for (const task of result) {
+        if (!task.instruction) throw new Error(`task "${task.name}" has no instruction (set one or extend a task that has one)`);
+        if (task.graders.length === 0) throw new Error(`task "${task.name}" has no graders (add one or extend a task that has some)`);
+    }
+    return result;
 }
 
 /**
- * Validate raw parsed YAML into a typed EvalConfig.
+ * Convert schema-checked YAML into a typed EvalConfig.
  */
 function validateConfig(raw: any): EvalConfig {
-    if (!raw || typeof raw !== 'object') {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
         throw new Error('eval.yaml must be a YAML object');
     }
 
@@ -68,9 +208,6 @@ function validateConfig(raw: any): EvalConfig {
     // Handle ACP config
     let acp: AcpConfig | undefined;
     if (raw.defaults?.acp) {
-        if (!raw.defaults.acp.command) {
-            throw new Error('eval.yaml: acp.command is required when using ACP agent');
-        }
         acp = {
             command: raw.defaults.acp.command,
             env: raw.defaults.acp.env,
@@ -95,31 +232,22 @@ function validateConfig(raw: any): EvalConfig {
         defaults.acp = acp;
     }
 
-    if (!raw.tasks || !Array.isArray(raw.tasks) || raw.tasks.length === 0) {
-        throw new Error('eval.yaml must have at least one task in the "tasks" array');
-    }
-
-    const tasks: EvalTaskConfig[] = raw.tasks.map((t: any, i: number) => {
-        if (!t.name) throw new Error(`Task ${i} is missing a "name"`);
-        if (!t.instruction) throw new Error(`Task "${t.name}" is missing an "instruction"`);
-        if (!t.graders || !Array.isArray(t.graders) || t.graders.length === 0) {
-            throw new Error(`Task "${t.name}" must have at least one grader`);
-        }
-
+    const tasks: EvalTaskConfig[] = raw.tasks.map((t: any) => {
         const workspace: WorkspaceMapping[] = (t.workspace || []).map((w: any) => {
             if (typeof w === 'string') {
                 // Support shorthand: "fixtures/app.js" → same filename in workspace
                 return { src: w, dest: path.basename(w) };
             }
-            if (!w.src || !w.dest) {
-                throw new Error(`Task "${t.name}" has a workspace mapping without src/dest`);
-            }
             return { src: w.src, dest: w.dest, chmod: w.chmod };
         });
 
         return {
             name: t.name,
             instruction: t.instruction,
+            tags: t.tags,
+            parameters: t.parameters && Object.keys(t.parameters).length > 0
+                ? Object.fromEntries(Object.entries(t.parameters).map(([k, v]) => [k, (v as unknown[]).map(String)]))
+                : undefined,
             workspace,
             graders: t.graders.map((g: any) => ({
                 type: g.type,
@@ -127,33 +255,155 @@ function validateConfig(raw: any): EvalConfig {
                 run: g.run,
                 rubric: g.rubric,
                 model: g.model,
+                skills: g.skills,
+                forbidden_skills: g.forbidden_skills,
+                min_source: g.min_source,
+                required: g.required,
+                pass_threshold: g.pass_threshold,
                 weight: g.weight ?? 1.0,
             })),
             solution: t.solution,
+            distractor_skills: pathList(t.distractor_skills),
             agent: t.agent,
             provider: t.provider,
             trials: t.trials,
             timeout: t.timeout,
+            pass_threshold: t.pass_threshold,
+            grader_model: t.grader_model,
             docker: t.docker,
+            environment: t.environment,
+        };
+    }).flatMap(expandTask);
+
+    const names = new Set<string>();
+    for (const task of tasks) {
+        if (names.has(task.name)) {
+            throw new Error(task.variant
+                ? `task "${task.variant.task}": parameters expand to the task name "${task.name}", which is already used`
+                : `task name "${task.name}" is used more than once`);
+        }
+        names.add(task.name);
+    }
+
+    return {
+        version,
+        skill: raw.skill,
+        distractor_skills: pathList(raw.distractor_skills),
+        matrix: raw.matrix?.map((entry: string | MatrixEntry) => typeof entry === 'string'
+            ? parseMatrixEntry(entry)
+            : { agent: entry.agent, ...(entry.model ? { model: entry.model } : {}) }),
+        defaults,
+        tasks,
+    };
+}
+
+/** An optional list of paths (a single string is accepted as a one-item list) */
+function pathList(value: string | string[] | undefined): string[] | undefined {
+    return typeof value === 'string' ? [value] : value;
+}
+
+/** Which tasks to run or list */
+export interface TaskSelection {
+    eval?: string;          // comma-separated task names; * and ? are wildcards
+    tags?: string[];        // keep tasks with at least one of these tags
+    excludeTags?: string[]; // drop tasks with any of these tags
+}
+
+/**
+ * Tasks matching a selection, in eval.yaml order. A name pattern also matches
+ * a parameterized task's name as written in eval.yaml, selecting all its variants.
+ */
+export function selectTasks(tasks: EvalTaskConfig[], selection: TaskSelection): EvalTaskConfig[] {
+    const patterns = selection.eval?.split(',').map(s => s.trim()).filter(Boolean).map(namePattern);
+    return tasks.filter(t =>
+        (!patterns || patterns.some(p => p.test(t.name) || (t.variant !== undefined && p.test(t.variant.task))))
+        && (!selection.tags?.length || selection.tags.some(tag => t.tags?.includes(tag)))
+        && !selection.excludeTags?.some(tag => t.tags?.includes(tag)));
+}
+
+/** Tags in the selection that no task has (likely typos) */
+export function unknownTags(tasks: EvalTaskConfig[], selection: TaskSelection): string[] {
+    const known = new Set(tasks.flatMap(t => t.tags ?? []));
+    return [...selection.tags ?? [], ...selection.excludeTags ?? []].filter(tag => !known.has(tag));
+}
+
+/** Exact-match RegExp for a task name pattern with * and ? wildcards */
+function namePattern(pattern: string): RegExp {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${source}$`);
+}
+
+/** A {{name}} placeholder; spaces inside the braces are allowed */
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Expand a task with `parameters:` into one task per combination of values,
+ * substituting {{name}} in its name, instruction, workspace paths, solution
+ * and grader setup/run/rubric. File contents behind instruction/run/rubric
+ * references are substituted later, by resolveTask.
+ *
+ * A name without placeholders gets the values appended: "fix-lint-app.js".
+ */
+export function expandTask(task: EvalTaskConfig): EvalTaskConfig[] {
+    if (!task.parameters) return [task];
+
+    let combinations: Array<Record<string, string>> = [{}];
+    for (const [name, values] of Object.entries(task.parameters)) {
+        combinations = combinations.flatMap(c => values.map(v => ({ ...c, [name]: v })));
+    }
+
+    return combinations.map(values => {
+        const fill = (text: string) => substituteParameters(text, values);
+        const fillOpt = (text?: string) => text === undefined ? undefined : fill(text);
+        const slugs = Object.fromEntries(Object.entries(values).map(([k, v]) => [k, v.replace(/[^\w.-]+/g, '-')]));
+        const name = task.name.search(PLACEHOLDER_RE) >= 0
+            ? substituteParameters(task.name, slugs)
+            : [task.name, ...Object.values(slugs)].join('-');
+        const variant: TaskVariant = { task: task.name, values };
+
+        const { parameters, ...rest } = task;
+        return {
+            ...rest,
+            name,
+            variant,
+            instruction: fill(task.instruction),
+            workspace: task.workspace?.map(w => ({ ...w, src: fill(w.src), dest: fill(w.dest) })),
+            solution: fillOpt(task.solution),
+            graders: task.graders.map(g => ({ ...g, setup: fillOpt(g.setup), run: fillOpt(g.run), rubric: fillOpt(g.rubric) })),
         };
     });
+}
 
-    return { version, skill: raw.skill, defaults, tasks };
+/** Replace {{name}} placeholders with values; unknown names are left as is */
+export function substituteParameters(text: string, values: Record<string, string>): string {
+    return text.replace(PLACEHOLDER_RE, (match, name) => Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+}
+
+/** Parse "agent" or "agent:model" (the model may itself contain ":" or "/") */
+export function parseMatrixEntry(spec: string): MatrixEntry {
+    const [agent, ...model] = spec.trim().split(':');
+    return model.length > 0 && model.join(':')
+        ? { agent, model: model.join(':') }
+        : { agent };
 }
 
 /**
  * Resolve a single task: apply defaults, resolve file references to content.
+ * A value that looks like a file path but doesn't exist is kept as inline
+ * text and reported through warn.
  */
 export async function resolveTask(
     task: EvalTaskConfig,
     defaults: EvalDefaults,
-    baseDir: string
+    baseDir: string,
+    warn: (message: string) => void = message => console.warn(`  ${fmt.red('warning')}  ${message}`)
 ): Promise<ResolvedTask> {
     // Merge defaults with task overrides
     const agent = task.agent || defaults.agent;
     const provider = task.provider || defaults.provider;
     const trials = task.trials ?? defaults.trials;
     const timeout = task.timeout ?? defaults.timeout;
+    const pass_threshold = task.pass_threshold ?? defaults.pass_threshold;
     const docker = {
         ...defaults.docker,
         ...(task.docker || {}),
@@ -165,8 +415,16 @@ export async function resolveTask(
     const grader_model = task.grader_model || defaults.grader_model;
     const acp = defaults.acp;  // ACP config is only at defaults level
 
+    const missing = (field: string) => (value: string) =>
+        warn(`task "${task.name}": ${field} "${value}" looks like a file path, but no such file exists; using it as inline text`);
+    // Placeholders inside referenced files are filled per variant
+    const resolve = async (value: string, field: string) => {
+        const content = await resolveFileOrInline(value, baseDir, missing(field));
+        return task.variant ? substituteParameters(content, task.variant.values) : content;
+    };
+
     // Resolve instruction — could be inline text or file path
-    const instruction = await resolveFileOrInline(task.instruction, baseDir);
+    const instruction = await resolve(task.instruction, 'instruction');
 
     // Resolve graders
     const graders: ResolvedGrader[] = await Promise.all(
@@ -177,11 +435,20 @@ export async function resolveTask(
                 model: g.model,
                 weight: g.weight,
             };
+            if (g.required) {
+                resolved.required = true;
+                resolved.pass_threshold = g.pass_threshold ?? pass_threshold;
+            }
             if (g.type === 'deterministic' && g.run) {
-                resolved.run = await resolveFileOrInline(g.run, baseDir);
+                resolved.run = await resolve(g.run, 'run');
             }
             if (g.type === 'llm_rubric' && g.rubric) {
-                resolved.rubric = await resolveFileOrInline(g.rubric, baseDir);
+                resolved.rubric = await resolve(g.rubric, 'rubric');
+            }
+            if (g.type === 'skill_triggered') {
+                if (g.skills) resolved.skills = g.skills;
+                if (g.forbidden_skills) resolved.forbidden_skills = g.forbidden_skills;
+                if (g.min_source) resolved.min_source = g.min_source;
             }
             return resolved;
         })
@@ -194,6 +461,7 @@ export async function resolveTask(
 
     return {
         name: task.name,
+        ...(task.variant ? { variant: task.variant } : {}),
         instruction,
         workspace: task.workspace || [],
         graders,
@@ -202,6 +470,7 @@ export async function resolveTask(
         provider,
         trials,
         timeout,
+        pass_threshold,
         grader_model,
         acp,
         docker,
@@ -211,9 +480,10 @@ export async function resolveTask(
 
 /**
  * If value looks like a file path and the file exists, read it.
- * Otherwise return the value as-is (inline content).
+ * Otherwise return the value as-is (inline content); onMissing is called
+ * when the value looks like a path to a file that doesn't exist.
  */
-async function resolveFileOrInline(value: string, baseDir: string): Promise<string> {
+async function resolveFileOrInline(value: string, baseDir: string, onMissing?: (value: string) => void): Promise<string> {
     const trimmed = value.trim();
 
     // Multi-line strings are always inline content
@@ -225,5 +495,11 @@ async function resolveFileOrInline(value: string, baseDir: string): Promise<stri
         return (await fs.readFile(candidate, 'utf-8')).trim();
     }
 
+    if (looksLikeFilePath(trimmed)) onMissing?.(trimmed);
     return trimmed;
 }
+
+/** A single token ending in a file extension, e.g. "prompts/fix.md" or "./check.sh" */
+export function looksLikeFilePath(value: string): boolean {
+    return !/\s/.test(value) && /\.[A-Za-z][A-Za-z0-9]{0,4}$/.test(value);
+}
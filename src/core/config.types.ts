@@ -12,13 +12,21 @@ export interface WorkspaceMapping {
     chmod?: string;     // e.g. "+x"
 }
 
+/** Grader types supported in eval.yaml */
+export type GraderType = 'deterministic' | 'llm_rubric' | 'skill_triggered';
+
 /** Grader definition */
 export interface EvalGraderConfig {
-    type: 'deterministic' | 'llm_rubric';
+    type: GraderType;
     setup?: string;     // commands to install grader dependencies (runs during image build)
     run?: string;       // inline script or file path (deterministic)
     rubric?: string;    // inline rubric or file path (llm_rubric)
     model?: string;     // LLM model override (e.g. 'gemini-2.0-flash', 'claude-sonnet-4-20250514')
+    skills?: string[];              // skills that must be triggered (skill_triggered)
+    forbidden_skills?: string[];    // skills that must not be triggered (skill_triggered)
+    min_source?: 'init_list' | 'file_read' | 'tool_use';  // weakest trigger source that counts (skill_triggered)
+    required?: boolean;         // trial fails when this grader scores below its pass_threshold
+    pass_threshold?: number;    // minimum score for a required grader (default: the task's pass_threshold)
     weight: number;
 }
 
@@ -42,19 +50,36 @@ export interface AcpConfig {
     env?: Record<string, string>;
 }
 
+/** One agent/model combination of a matrix run */
+export interface MatrixEntry {
+    agent: string;
+    model?: string;     // passed to the agent CLI's --model (default: the CLI's own default)
+}
+
+/** Parameter values of one variant of a parameterized task */
+export interface TaskVariant {
+    task: string;                       // name of the parameterized task in eval.yaml
+    values: Record<string, string>;     // parameter name → value substituted for {{name}}
+}
+
 /** Single eval task */
 export interface EvalTaskConfig {
     name: string;
     instruction: string;    // inline text or path to .md file
+    parameters?: Record<string, string[]>;  // expanded into one task per combination of values
+    variant?: TaskVariant;  // set on the tasks a parameterized task expands into
+    tags?: string[];        // for --tags / --exclude-tags selection
     workspace?: WorkspaceMapping[];
     graders: EvalGraderConfig[];
     solution?: string;      // path to reference solution script
+    distractor_skills?: string[];   // replaces the top-level distractor_skills for this task
 
     // Per-task overrides
     agent?: string;
     provider?: string;
     trials?: number;
     timeout?: number;
+    pass_threshold?: number;
     grader_model?: string;
     docker?: DockerConfig;
     environment?: Partial<EnvironmentConfig>;
@@ -67,6 +92,7 @@ export interface EvalDefaults {
     trials: number;
     timeout: number;
     threshold: number;  // for --ci mode
+    pass_threshold: number; // minimum reward for a trial to pass
     grader_model?: string;  // default LLM grader model
     acp?: AcpConfig;    // ACP agent configuration
     docker: DockerConfig;
@@ -77,6 +103,8 @@ export interface EvalDefaults {
 export interface EvalConfig {
     version: string;
     skill?: string;         // optional path to SKILL.md (defaults to auto-detection)
+    distractor_skills?: string[];   // other skill directories injected to compete with the skill under test
+    matrix?: MatrixEntry[];         // run every task once per agent/model combination
     defaults: EvalDefaults;
     tasks: EvalTaskConfig[];
 }
@@ -84,7 +112,8 @@ export interface EvalConfig {
 /** Resolved task — all defaults applied, file references resolved to content */
 export interface ResolvedTask {
     name: string;
-    instruction: string;    // actual content (not file path)
+    variant?: TaskVariant;
+    instruction: string;    // actual content (not file path), placeholders substituted
     workspace: WorkspaceMapping[];
     graders: ResolvedGrader[];
     solution?: string;      // resolved file path
@@ -92,6 +121,7 @@ export interface ResolvedTask {
     provider: string;
     trials: number;
     timeout: number;
+    pass_threshold: number;
     grader_model?: string;  // inherited default model for LLM graders
     acp?: AcpConfig;        // ACP agent configuration
     docker: DockerConfig;
@@ -99,10 +129,15 @@ export interface ResolvedTask {
 }
 
 export interface ResolvedGrader {
-    type: 'deterministic' | 'llm_rubric';
+    type: GraderType;
     setup?: string;     // resolved setup commands
     run?: string;       // resolved content for deterministic
     rubric?: string;    // resolved content for llm_rubric
     model?: string;     // LLM model override
+    skills?: string[];
+    forbidden_skills?: string[];
+    min_source?: 'init_list' | 'file_read' | 'tool_use';
+    required?: boolean;
+    pass_threshold?: number;
     weight: number;
 }
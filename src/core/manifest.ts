@@ -0,0 +1,91 @@
+/**
+ * Run manifests.
+ *
+ * Every `skillgrade` invocation writes one manifest to `<output>/runs/` that
+ * records what was run (options, agent/provider per task), against what
+ * (eval.yaml and skill content hashes, git commit) and with which skillgrade
+ * version. Each report saved by the run carries the manifest's run_id.
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { execFile } from 'child_process';
+import { RunManifest } from '../types';
+
+/** Directories skipped when hashing skill content */
+const IGNORED_DIRS = new Set(['.git', 'node_modules']);
+
+/** Sortable, unique id for a run, e.g. "2026-01-01T12-00-00-000Z_3f9a1c" */
+export function createRunId(date: Date = new Date()): string {
+    return `${date.toISOString().replace(/[:.]/g, '-')}_${randomBytes(3).toString('hex')}`;
+}
+
+/** sha256 of a file's content, or undefined if it can't be read */
+export async function hashFile(file: string): Promise<string | undefined> {
+    try {
+        return createHash('sha256').update(await fs.readFile(file)).digest('hex');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * sha256 over every file in the given directories (relative path + content,
+ * in sorted order), so any edit to a skill changes the hash.
+ */
+export async function hashDirectories(dirs: string[]): Promise<string> {
+    const hash = createHash('sha256');
+    for (const dir of [...dirs].sort()) {
+        for (const file of await listFiles(dir)) {
+            hash.update(`${path.basename(dir)}/${path.relative(dir, file)}\0`);
+            hash.update(await fs.readFile(file));
+            hash.update('\0');
+        }
+    }
+    return hash.digest('hex');
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!IGNORED_DIRS.has(entry.name)) files.push(...await listFiles(full));
+        } else if (entry.isFile()) {
+            files.push(full);
+        }
+    }
+    return files;
+}
+
+/** Current git commit of dir and whether the work tree has uncommitted changes; undefined outside a repo */
+export async function gitRevision(dir: string): Promise<{ commit: string; dirty: boolean } | undefined> {
+    const git = (args: string[]) => new Promise<string>((resolve, reject) => {
+        execFile('git', args, { cwd: dir, timeout: 5000 }, (err, stdout) => err ? reject(err) : resolve(stdout.trim()));
+    });
+    try {
+        const commit = await git(['rev-parse', 'HEAD']);
+        const status = await git(['status', '--porcelain']);
+        return { commit, dirty: status.length > 0 };
+    } catch {
+        return undefined;
+    }
+}
+
+/** Version of the running skillgrade package */
+export function skillgradeVersion(): string {
+    try {
+        return require('../../package.json').version;
+    } catch {
+        return 'unknown';
+    }
+}
+
+/** Write (or overwrite) a run's manifest; returns its path */
+export async function writeManifest(outputDir: string, manifest: RunManifest): Promise<string> {
+    const file = path.join(outputDir, 'runs', `${manifest.run_id}.json`);
+    await fs.ensureDir(path.dirname(file));
+    await fs.writeJSON(file, manifest, { spaces: 2 });
+    return file;
+}
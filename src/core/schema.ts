@@ -0,0 +1,359 @@
+/**
+ * eval.yaml schema validation.
+ *
+ * Checks eval.yaml against schema/eval.schema.json — the schema editors use
+ * through yaml-language-server — and reports every problem with its line and
+ * column. Unknown keys are warnings with a "did you mean" suggestion; all
+ * other problems are errors.
+ */
+import * as yaml from 'js-yaml';
+
+/** JSON Schema (draft-07) for eval.yaml */
+export const EVAL_SCHEMA: JsonSchema = require('../../schema/eval.schema.json');
+
+/** Schema for files listed in `include:` — only defaults and tasks are merged, and both are optional */
+export const INCLUDE_SCHEMA: JsonSchema = {
+    ...EVAL_SCHEMA,
+    required: [],
+    properties: Object.fromEntries(['version', 'include', 'defaults', 'tasks'].map(key => [key, EVAL_SCHEMA.properties![key]])),
+};
+
+/** The subset of JSON Schema keywords the validator understands */
+export interface JsonSchema {
+    $id?: string;
+    $ref?: string;
+    type?: string | string[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    minLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    oneOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+    if?: JsonSchema;
+    then?: JsonSchema;
+    else?: JsonSchema;
+    definitions?: Record<string, JsonSchema>;
+    [keyword: string]: unknown;
+}
+
+/** One problem found in eval.yaml */
+export interface ConfigIssue {
+    severity: 'error' | 'warning';
+    file?: string;      // included file the issue is in (default: eval.yaml)
+    path: string;       // e.g. "tasks[0].graders[1].weight"; '' for the document itself
+    message: string;
+    line?: number;      // 1-based
+    column?: number;    // 1-based
+}
+
+type Segment = string | number;
+
+/** A schema violation, before its source position is looked up */
+export interface SchemaIssue {
+    severity: 'error' | 'warning';
+    path: Segment[];
+    key?: string;       // unknown key in the mapping at path
+    message: string;
+}
+
+/** Source positions of values (and of mapping keys) by path */
+interface Locations {
+    values: Map<string, Position>;
+    keys: Map<string, Position>;
+}
+
+interface Position {
+    line: number;
+    column: number;
+}
+
+/** Parse eval.yaml content and validate it against the schema; issues are in source order */
+export function checkEvalYaml(content: string, schema: JsonSchema = EVAL_SCHEMA): { raw: unknown; issues: ConfigIssue[] } {
+    const frames: Frame[] = [{ offset: 0, children: [] }];
+    let raw: unknown;
+    try {
+        raw = yaml.load(content, {
+            listener(event, state) {
+                if (event === 'open') {
+                    frames.push({ offset: state.position, children: [] });
+                } else {
+                    const frame = frames.pop()!;
+                    frame.result = state.result;
+                    frame.kind = state.kind;
+                    frames[frames.length - 1].children.push(frame);
+                }
+            },
+        });
+    } catch (err) {
+        if (err instanceof yaml.YAMLException) {
+            return {
+                raw: undefined,
+                issues: [{ severity: 'error', path: '', message: err.reason, line: err.mark.line + 1, column: err.mark.column + 1 }],
+            };
+        }
+        throw err;
+    }
+
+    const locations: Locations = { values: new Map(), keys: new Map() };
+    if (frames[0].children.length > 0) {
+        collectLocations(frames[0].children[0], [], content, lineStarts(content), locations);
+    }
+
+    const issues = validateSchema(raw, schema).map(({ severity, path, key, message }): ConfigIssue => {
+        const position = key !== undefined
+            ? locations.keys.get(formatPath([...path, key]))
+            : locate(path, locations);
+        return { severity, path: formatPath(path), message, ...position };
+    });
+    issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+    return { raw, issues };
+}
+
+/** "eval.yaml:12:7: error: tasks[0].trials must be >= 1" */
+export function formatIssue(issue: ConfigIssue, file: string = issue.file ?? 'eval.yaml'): string {
+    const position = issue.line ? `:${issue.line}:${issue.column}` : '';
+    return `${file}${position}: ${issue.severity}: ${issue.message}`;
+}
+
+/** "tasks[0].graders[1].weight" */
+export function formatPath(path: Segment[]): string {
+    return path.map((s, i) => typeof s === 'number' ? `[${s}]` : i === 0 ? s : `.${s}`).join('');
+}
+
+// ─── Validation ──────────────────────────────────────────────
+
+/** Validate a value against a schema; every issue carries the path of the offending value */
+export function validateSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    check(value, schema, [], root, issues);
+    return issues;
+}
+
+function check(value: unknown, schema: JsonSchema, path: Segment[], root: JsonSchema, issues: SchemaIssue[]): void {
+    schema = resolve(schema, root);
+    const label = formatPath(path) || 'eval.yaml';
+    const error = (message: string) => issues.push({ severity: 'error', path, message });
+
+    if (schema.const !== undefined && value !== schema.const) {
+        error(`${label} must be ${JSON.stringify(schema.const)}`);
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        const allowed = schema.enum.filter(v => typeof v === 'string') as string[];
+        const suggestion = typeof value === 'string' ? didYouMean(value, allowed) : '';
+        error(`${label} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}${suggestion}`);
+        return;
+    }
+    if (schema.type && !typeMatches(value, schema.type)) {
+        error(`${label} must be ${describeType(schema.type)}, got ${describeValue(value)}`);
+        return;
+    }
+
+    if (schema.oneOf) {
+        const branch = schema.oneOf.map(s => resolve(s, root)).find(s => !s.type || typeMatches(value, s.type));
+        if (!branch) {
+            const types = schema.oneOf.map(s => describeType(resolve(s, root).type ?? 'any'));
+            error(`${label} must be ${types.join(' or ')}, got ${describeValue(value)}`);
+            return;
+        }
+        check(value, branch, path, root, issues);
+    }
+    for (const sub of schema.allOf ?? []) {
+        check(value, sub, path, root, issues);
+    }
+    if (schema.if) {
+        const matched: SchemaIssue[] = [];
+        check(value, schema.if, path, root, matched);
+        const branch = matched.length === 0 ? schema.then : schema.else;
+        if (branch) check(value, branch, path, root, issues);
+    }
+
+    if (isObject(value)) {
+        for (const key of schema.required ?? []) {
+            if (!(key in value)) {
+                error(path.length > 0 ? `${label} is missing required key "${key}"` : `missing required key "${key}"`);
+            }
+        }
+        const known = Object.keys(schema.properties ?? {});
+        for (const [key, child] of Object.entries(value)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                check(child, propertySchema, [...path, key], root, issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({
+                    severity: 'warning',
+                    path,
+                    key,
+                    message: `unknown key "${key}"${path.length > 0 ? ` in ${label}` : ''}${didYouMean(key, known)}`,
+                });
+            } else if (typeof schema.additionalProperties === 'object') {
+                check(child, schema.additionalProperties, [...path, key], root, issues);
+            }
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            error(schema.minItems === 1 ? `${label} must not be empty` : `${label} must have at least ${schema.minItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, i) => check(item, schema.items!, [...path, i], root, issues));
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            error(`${label} must not be empty`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            error(`${label} ${JSON.stringify(value)} does not match ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            error(`${label} must be >= ${schema.minimum}, got ${value}`);
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            error(`${label} must be > ${schema.exclusiveMinimum}, got ${value}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            error(`${label} must be <= ${schema.maximum}, got ${value}`);
+        }
+    }
+}
+
+/** Follow a local "#/definitions/name" reference */
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+    while (schema.$ref) {
+        const name = schema.$ref.replace(/^#\/definitions\//, '');
+        const target = root.definitions?.[name];
+        if (!target) throw new Error(`Unresolvable schema reference ${schema.$ref}`);
+        schema = target;
+    }
+    return schema;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeMatches(value: unknown, type: string | string[]): boolean {
+    return (Array.isArray(type) ? type : [type]).some(t => {
+        switch (t) {
+            case 'object': return isObject(value);
+            case 'array': return Array.isArray(value);
+            case 'integer': return Number.isInteger(value);
+            case 'number': return typeof value === 'number' && !Number.isNaN(value);
+            case 'null': return value === null;
+            default: return typeof value === t;
+        }
+    });
+}
+
+function describeType(type: string | string[]): string {
+    const names = (Array.isArray(type) ? type : [type]).map(t =>
+        t === 'integer' ? 'an integer' : t === 'array' ? 'a list' : t === 'object' ? 'a mapping' : t === 'null' ? 'empty' : `a ${t}`);
+    return names.join(' or ');
+}
+
+function describeValue(value: unknown): string {
+    if (value === null || value === undefined) return 'nothing';
+    if (Array.isArray(value)) return 'a list';
+    if (typeof value === 'object') return 'a mapping';
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/** ' (did you mean "x"?)' for the closest candidate within a few edits, else '' */
+export function didYouMean(input: string, candidates: string[]): string {
+    const maxDistance = Math.min(3, Math.max(1, Math.floor(input.length / 3)));
+    let best: { candidate: string; distance: number } | undefined;
+    for (const candidate of candidates) {
+        const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+            best = { candidate, distance };
+        }
+    }
+    return best ? ` (did you mean "${best.candidate}"?)` : '';
+}
+
+/** Levenshtein distance that also counts a swap of adjacent characters as one edit */
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+// ─── Source positions ────────────────────────────────────────
+
+/** A node reported by js-yaml's listener, with the nodes composed inside it */
+interface Frame {
+    offset: number;
+    kind?: string;
+    result?: unknown;
+    children: Frame[];
+}
+
+/**
+ * Record where each value (and mapping key) starts. Mapping frames hold their
+ * keys and values as alternating children; sequence frames hold their items.
+ */
+function collectLocations(frame: Frame, path: Segment[], content: string, starts: number[], locations: Locations): void {
+    // Flow collections inside block sequences are reported twice, the outer frame wrapping the inner
+    while (frame.children.length === 1 && frame.children[0].result === frame.result && frame.kind === frame.children[0].kind) {
+        frame = frame.children[0];
+    }
+    locations.values.set(formatPath(path), position(frame.offset, content, starts));
+
+    if (frame.kind === 'mapping') {
+        for (let i = 0; i + 1 < frame.children.length; i += 2) {
+            const key = String(frame.children[i].result);
+            locations.keys.set(formatPath([...path, key]), position(frame.children[i].offset, content, starts));
+            collectLocations(frame.children[i + 1], [...path, key], content, starts, locations);
+        }
+    } else if (frame.kind === 'sequence') {
+        frame.children.forEach((child, i) => collectLocations(child, [...path, i], content, starts, locations));
+    }
+}
+
+/** Position of the nearest located value at or above path */
+function locate(path: Segment[], locations: Locations): Position | undefined {
+    for (let n = path.length; n >= 0; n--) {
+        const found = locations.values.get(formatPath(path.slice(0, n)));
+        if (found) return found;
+    }
+    return undefined;
+}
+
+function lineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+/** Line and column of the first non-blank character at or after offset */
+function position(offset: number, content: string, starts: number[]): Position {
+    while (offset < content.length && /\s/.test(content[offset])) offset++;
+    let line = 0;
+    while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+    return { line: line + 1, column: offset - starts[line] + 1 };
+}
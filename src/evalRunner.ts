@@ -2,10 +2,14 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import {
     BaseAgent, EnvironmentProvider,
-    LogEntry, TrialResult, EvalReport, GraderResult, AgentResult
+    LogEntry, TrialResult, EvalReport, GraderResult, AgentResult, BaselineReport, SkillTriggerInfo
 } from './types';
 import { ResolvedGrader } from './core/config.types';
 import { getGrader } from './graders';
+import {
+    calculateNormalizedGain, summarizeChecks, calculateSkillTriggerRate, summarizeToolUsage, calculateSkillSelection,
+    summarizeUsage, calculateConfidenceIntervals, trialPassed
+} from './analytics/engine';
 import { fmt, Spinner } from './utils/cli';
 
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
@@ -42,7 +46,7 @@ function calculatePassPowK(n: number, c: number, k: number): number {
     return Math.pow(p, k);
 }
 
-/** Estimate token count from text (~4 chars per token) */
+/** Estimate token count from text (~4 chars per token), for agents that don't report usage */
 function estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
 }
@@ -59,19 +63,70 @@ function normalizeAgentOutput(raw: string | AgentResult): AgentResult {
     return raw;
 }
 
+/** Trial fields taken from structured agent output (empty for plain-text agents) */
+function agentMetadata(raw: string | AgentResult): Partial<TrialResult> {
+    if (typeof raw === 'string') return {};
+
+    const meta: Partial<TrialResult> = {
+        skills_triggered: raw.skills_triggered,
+        tools_used: raw.tools_used,
+    };
+    if (raw.num_turns != null) meta.num_turns = raw.num_turns;
+    if (raw.input_tokens != null || raw.output_tokens != null) {
+        meta.input_tokens = raw.input_tokens || 0;
+        meta.output_tokens = raw.output_tokens || 0;
+        meta.tokens_estimated = false;
+    }
+    if (raw.cost_usd != null) meta.cost_usd = raw.cost_usd;
+    if (raw.raw_output) meta.raw_output = raw.raw_output;
+    return meta;
+}
+
 /** Options for running an eval */
 export interface EvalRunOptions {
     instruction: string;
     graders: ResolvedGrader[];
     timeoutSec: number;
+    passThreshold?: number;     // minimum reward for a trial to pass (default: 0.5)
     graderModel?: string;       // default LLM grader model
     graderTimeoutSec?: number;  // timeout per grader (default: 120s)
+    distractorSkills?: string[];  // skill dirs injected alongside the skills under test
+    checkpoint?: string;        // JSONL file each completed trial is appended to
+    resume?: boolean;           // reuse trials already recorded in the checkpoint
+    adaptive?: AdaptiveOptions; // stop early once the pass rate is clearly above/below threshold
+    runId?: string;             // recorded on the report to link it to the run manifest
+    agent?: string;             // recorded on the report (agent name, e.g. "claude")
+    model?: string;             // recorded on the report (model passed to the agent)
     environment: {
         cpus: number;
         memory_mb: number;
     };
 }
 
+/**
+ * Adaptive trial count: start with minTrials, then add trials (one batch of
+ * `parallel` at a time) until the 95% pass-rate interval is entirely above or
+ * below the threshold, or the trial count given to runEval is reached.
+ */
+export interface AdaptiveOptions {
+    threshold: number;
+    minTrials: number;
+}
+
+/**
+ * Whether trials so far decide the threshold check.
+ * Re-checking after every batch makes false stops somewhat likelier than the
+ * nominal 5%; minTrials keeps the first looks from being too noisy.
+ */
+function adaptiveDecision(trials: TrialResult[], threshold: number): 'above_threshold' | 'below_threshold' | undefined {
+    const n = trials.length;
+    const successes = trials.filter(t => trialPassed(t)).length;
+    const ci = calculateConfidenceIntervals(trials, calculatePassAtK(n, successes, n), calculatePassPowK(n, successes, n)).pass_rate;
+    if (ci.lower >= threshold) return 'above_threshold';
+    if (ci.upper < threshold) return 'below_threshold';
+    return undefined;
+}
+
 export class EvalRunner {
     private provider: EnvironmentProvider;
     private logDir?: string;
@@ -94,79 +149,235 @@ export class EvalRunner {
         env?: Record<string, string>,
         parallel: number = 1
     ): Promise<EvalReport> {
-        const taskName = path.basename(taskPath);
+        const injected = [...skillsPaths, ...(opts.distractorSkills || [])];
+        await this.prepareEnvironment(taskPath, injected, opts, env);
 
-        // One-time image build (if provider supports it)
-        if (this.provider.prepare) {
-            const buildSpinner = new Spinner('build', 'building image');
-            try {
-                const imageId = await this.provider.prepare(taskPath, skillsPaths, opts, env);
-                buildSpinner.stop(`${fmt.dim('image ready')}  ${fmt.dim(typeof imageId === 'string' ? imageId : '')}`);
-            } catch (err) {
-                buildSpinner.stop(`${fmt.fail('build failed')}`);
-                throw err;
+        let trials: TrialResult[];
+
+        try {
+            trials = await this.runTrials(agent, taskPath, injected, opts, numTrials, parallel, env, opts.checkpoint);
+        } finally {
+            if (this.provider.teardown) {
+                await this.provider.teardown();
             }
         }
 
-        let trials: TrialResult[];
+        const report = await this.finalizeReport(path.basename(taskPath), trials, skillsPaths, opts, env);
+        if (opts.checkpoint) await fs.remove(opts.checkpoint);
+        return report;
+    }
+
+    /**
+     * Run the task twice per trial budget: once with the skills injected and
+     * once without, sharing the same prepared environment. Distractor skills
+     * are injected in both runs.
+     */
+    async runBaselineEval(
+        agent: BaseAgent,
+        taskPath: string,
+        skillsPaths: string[],
+        opts: EvalRunOptions,
+        numTrials: number = 1,
+        env?: Record<string, string>,
+        parallel: number = 1
+    ): Promise<BaselineReport> {
+        const distractors = opts.distractorSkills || [];
+        await this.prepareEnvironment(taskPath, [...skillsPaths, ...distractors], opts, env);
+
+        const baselineCheckpoint = opts.checkpoint?.replace(/\.jsonl$/, '_baseline.jsonl');
+        let withTrials: TrialResult[];
+        let withoutTrials: TrialResult[];
 
         try {
-            if (parallel > 1 && numTrials > 1) {
-                trials = await this.runTrialsParallel(agent, taskPath, skillsPaths, opts, numTrials, parallel, env);
-            } else {
-                trials = [];
-                for (let i = 0; i < numTrials; i++) {
-                    const result = await this.runSingleTrial(agent, taskPath, skillsPaths, opts, i, numTrials, env);
-                    trials.push(result);
-                }
-            }
+            console.log(`    ${fmt.dim('with skill')}`);
+            withTrials = await this.runTrials(agent, taskPath, [...skillsPaths, ...distractors], opts, numTrials, parallel, env, opts.checkpoint);
+            console.log(`    ${fmt.dim('without skill')}`);
+            withoutTrials = await this.runTrials(agent, taskPath, distractors, opts, numTrials, parallel, env, baselineCheckpoint);
         } finally {
             if (this.provider.teardown) {
                 await this.provider.teardown();
             }
         }
 
-        const totalReward = trials.reduce((sum, t) => sum + t.reward, 0);
-        const successes = trials.filter(t => t.reward >= 0.5).length;
+        const taskName = path.basename(taskPath);
+        const withSkill = await this.finalizeReport(taskName, withTrials, skillsPaths, opts, env);
+        const withoutSkill = await this.finalizeReport(taskName, withoutTrials, [], opts, env, true);
+        if (opts.checkpoint) await fs.remove(opts.checkpoint);
+        if (baselineCheckpoint) await fs.remove(baselineCheckpoint);
 
-        const report: EvalReport = {
-            task: taskName,
-            pass_rate: totalReward / numTrials,
-            pass_at_k: calculatePassAtK(numTrials, successes, numTrials),
-            pass_pow_k: calculatePassPowK(numTrials, successes, numTrials),
-            trials,
-            skills_used: skillsPaths.map(p => path.basename(p))
+        return {
+            with_skill: withSkill,
+            without_skill: withoutSkill,
+            normalized_gain: calculateNormalizedGain(withSkill.pass_rate, withoutSkill.pass_rate),
         };
+    }
 
-        if (this.logDir) {
-            const sanitized = this.sanitize(report, env);
-            await this.saveReport(sanitized);
-        }
+    /** One-time image build (if provider supports it) */
+    private async prepareEnvironment(
+        taskPath: string,
+        skillsPaths: string[],
+        opts: EvalRunOptions,
+        env?: Record<string, string>
+    ): Promise<void> {
+        if (!this.provider.prepare) return;
 
-        return report;
+        const buildSpinner = new Spinner('build', 'building image');
+        try {
+            const imageId = await this.provider.prepare(taskPath, skillsPaths, opts, env);
+            buildSpinner.stop(`${fmt.dim('image ready')}  ${fmt.dim(typeof imageId === 'string' ? imageId : '')}`);
+        } catch (err) {
+            buildSpinner.stop(`${fmt.fail('build failed')}`);
+            throw err;
+        }
     }
 
-    private async runTrialsParallel(
+    /**
+     * Run the trials not yet recorded in the checkpoint (all of them unless resuming),
+     * appending each result to the checkpoint as it completes. In adaptive mode
+     * numTrials is the cap, and trials stop once the outcome is decided.
+     */
+    private async runTrials(
         agent: BaseAgent,
         taskPath: string,
         skillsPaths: string[],
         opts: EvalRunOptions,
         numTrials: number,
         parallel: number,
-        env?: Record<string, string>
+        env?: Record<string, string>,
+        checkpoint?: string
     ): Promise<TrialResult[]> {
         const results: TrialResult[] = new Array(numTrials);
-        const queue = Array.from({ length: numTrials }, (_, i) => i);
 
-        const workers = Array.from({ length: Math.min(parallel, numTrials) }, async () => {
-            while (queue.length > 0) {
-                const i = queue.shift()!;
-                results[i] = await this.runSingleTrial(agent, taskPath, skillsPaths, opts, i, numTrials, env);
+        if (checkpoint && opts.resume) {
+            for (const trial of await this.loadCheckpoint(checkpoint, numTrials)) {
+                results[trial.trial_id - 1] = trial;
+            }
+            const resumed = results.filter(Boolean).length;
+            if (resumed > 0) {
+                console.log(`    ${fmt.dim(`resuming: ${resumed}/${numTrials} trials already done`)}`);
+            }
+        } else if (checkpoint) {
+            await fs.remove(checkpoint);
+        }
+
+        // Parallel workers append one at a time, so long trial lines never interleave
+        let checkpointWrites: Promise<void> = Promise.resolve();
+        const appendCheckpoint = (file: string, trial: TrialResult) => {
+            checkpointWrites = checkpointWrites.then(async () => {
+                await fs.ensureDir(path.dirname(file));
+                await fs.appendFile(file, JSON.stringify(this.sanitizeTrial(trial, env)) + '\n');
+            });
+            return checkpointWrites;
+        };
+
+        let target = opts.adaptive ? Math.min(numTrials, opts.adaptive.minTrials) : numTrials;
+        while (true) {
+            const queue = Array.from({ length: target }, (_, i) => i).filter(i => !results[i]);
+            const runNext = async () => {
+                while (queue.length > 0) {
+                    const i = queue.shift()!;
+                    results[i] = await this.runSingleTrial(agent, taskPath, skillsPaths, opts, i, numTrials, env);
+                    if (checkpoint) await appendCheckpoint(checkpoint, results[i]);
+                }
+            };
+
+            const workers = parallel > 1 ? Math.min(parallel, queue.length) : 1;
+            await Promise.all(Array.from({ length: workers }, runNext));
+
+            if (!opts.adaptive || target >= numTrials) break;
+            const decision = adaptiveDecision(results.filter(Boolean), opts.adaptive.threshold);
+            if (decision) {
+                const label = decision === 'above_threshold' ? 'above' : 'below';
+                console.log(`    ${fmt.dim(`stopping early: pass rate is ${label} ${(opts.adaptive.threshold * 100).toFixed(0)}% after ${target} trials`)}`);
+                break;
             }
-        });
+            target = Math.min(numTrials, target + Math.max(parallel, 1));
+        }
 
-        await Promise.all(workers);
-        return results;
+        return results.filter(Boolean);
+    }
+
+    /** Trials recorded by an interrupted run; a partially written last line is ignored */
+    private async loadCheckpoint(checkpoint: string, numTrials: number): Promise<TrialResult[]> {
+        if (!await fs.pathExists(checkpoint)) return [];
+
+        const trials: TrialResult[] = [];
+        for (const line of (await fs.readFile(checkpoint, 'utf-8')).split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const trial = JSON.parse(line);
+                if (trial.trial_id >= 1 && trial.trial_id <= numTrials) trials.push(trial);
+            } catch { /* skip partial write */ }
+        }
+        return trials;
+    }
+
+    /** Compute aggregate metrics and persist the report */
+    private async finalizeReport(
+        taskName: string,
+        trials: TrialResult[],
+        skillsPaths: string[],
+        opts: EvalRunOptions,
+        env?: Record<string, string>,
+        baseline: boolean = false
+    ): Promise<EvalReport> {
+        const numTrials = trials.length;
+        const totalReward = trials.reduce((sum, t) => sum + t.reward, 0);
+        const successes = trials.filter(t => trialPassed(t)).length;
+
+        const report: EvalReport = {
+            task: taskName,
+            ...(opts.runId ? { run_id: opts.runId } : {}),
+            ...(opts.agent ? { agent: opts.agent } : {}),
+            ...(opts.model ? { model: opts.model } : {}),
+            pass_rate: totalReward / numTrials,
+            pass_at_k: calculatePassAtK(numTrials, successes, numTrials),
+            pass_pow_k: calculatePassPowK(numTrials, successes, numTrials),
+            pass_threshold: opts.passThreshold ?? 0.5,
+            trials,
+            skills_used: skillsPaths.map(p => path.basename(p))
+        };
+        if (numTrials > 0) {
+            report.confidence = calculateConfidenceIntervals(trials, report.pass_at_k, report.pass_pow_k);
+        }
+        if (opts.adaptive) {
+            report.adaptive = {
+                threshold: opts.adaptive.threshold,
+                min_trials: opts.adaptive.minTrials,
+                stopped: adaptiveDecision(trials, opts.adaptive.threshold) ?? 'max_trials',
+            };
+        }
+        const checks = summarizeChecks(trials);
+        if (checks.length > 0) {
+            report.checks = checks;
+        }
+        const skillTriggerRate = calculateSkillTriggerRate(trials);
+        if (skillTriggerRate !== undefined) {
+            report.skill_trigger_rate = skillTriggerRate;
+        }
+        report.usage = summarizeUsage(trials);
+        const toolUsage = summarizeToolUsage(trials);
+        if (toolUsage.length > 0) {
+            report.tool_usage = toolUsage;
+        }
+        const distractors = (opts.distractorSkills || []).map(p => path.basename(p));
+        if (distractors.length > 0) {
+            report.distractor_skills = distractors;
+            const selection = calculateSkillSelection(trials, report.skills_used, distractors);
+            if (selection) {
+                report.skill_selection = selection;
+            }
+        }
+        if (baseline) {
+            report.baseline = true;
+        }
+
+        if (this.logDir) {
+            const sanitized = this.sanitize(report, env);
+            await this.saveReport(sanitized);
+        }
+
+        return report;
     }
 
     private async runSingleTrial(
@@ -217,11 +428,15 @@ export class EvalRunner {
             );
             const agentResult = normalizeAgentOutput(agentRaw);
 
-            sessionLog.push({
+            const agentEntry: LogEntry = {
                 type: 'agent_result',
                 timestamp: this.timestamp(),
                 output: agentResult.output
-            });
+            };
+            if (typeof agentRaw !== 'string') {
+                agentEntry.skills_triggered = agentResult.skills_triggered;
+            }
+            sessionLog.push(agentEntry);
 
             // Run all graders
             const graderResults: GraderResult[] = [];
@@ -234,6 +449,7 @@ export class EvalRunner {
                 // Build grader config with file references for execution
                 const detIndex = opts.graders.slice(0, gIdx).filter(g => g.type === 'deterministic').length;
                 const llmIndex = opts.graders.slice(0, gIdx).filter(g => g.type === 'llm_rubric').length;
+                const skillIndex = opts.graders.slice(0, gIdx).filter(g => g.type === 'skill_triggered').length;
 
                 const graderConfig = {
                     type: graderDef.type,
@@ -243,6 +459,9 @@ export class EvalRunner {
                     rubric: graderDef.type === 'llm_rubric'
                         ? `prompts/${llmIndex === 0 ? 'quality.md' : `quality_${llmIndex}.md`}`
                         : undefined,
+                    expectations: graderDef.type === 'skill_triggered'
+                        ? `expectations/${skillIndex === 0 ? 'skills.json' : `skills_${skillIndex}.json`}`
+                        : undefined,
                     model: graderDef.model || opts.graderModel,
                     weight: graderDef.weight,
                 };
@@ -253,6 +472,10 @@ export class EvalRunner {
                     graderTimeoutMs,
                     `Grader ${graderDef.type} (limit: ${opts.graderTimeoutSec ?? 120}s)`
                 );
+                if (graderDef.required) {
+                    result.required = true;
+                    result.pass_threshold = graderDef.pass_threshold ?? opts.passThreshold ?? 0.5;
+                }
                 graderResults.push(result);
 
                 sessionLog.push({
@@ -262,11 +485,13 @@ export class EvalRunner {
                 });
             }
 
-            // Calculate weighted reward
+            // Calculate weighted reward; a failed required grader fails the trial outright
             const totalWeight = graderResults.reduce((sum, r) => sum + r.weight, 0);
-            const reward = totalWeight > 0
+            const failedRequired = graderResults.filter(r => r.required && r.score < r.pass_threshold!);
+            const reward = totalWeight > 0 && failedRequired.length === 0
                 ? graderResults.reduce((sum, r) => sum + r.score * r.weight, 0) / totalWeight
                 : 0;
+            const passed = failedRequired.length === 0 && reward >= (opts.passThreshold ?? 0.5);
 
             sessionLog.push({
                 type: 'reward',
@@ -276,23 +501,30 @@ export class EvalRunner {
 
             const duration_ms = Date.now() - startTime;
 
-            const input_tokens = estimateTokens(instruction);
-            const output_tokens = sessionLog
-                .filter(e => e.type === 'agent_result' || e.type === 'command')
-                .reduce((sum, e) => sum + estimateTokens((e.output || '') + (e.stdout || '') + (e.stderr || '')), 0);
+            const meta = agentMetadata(agentRaw);
+            const skillNote = meta.skills_triggered
+                ? `  ${fmt.dim(meta.skills_triggered.length > 0 ? `skill: ${[...new Set(meta.skills_triggered.map(s => s.name))].join(', ')}` : 'no skill')}`
+                : '';
+
+            const requiredNote = failedRequired.length > 0
+                ? `  ${fmt.dim(`required failed: ${failedRequired.map(r => r.grader_type).join(', ')}`)}`
+                : '';
 
-            const status = reward >= 0.5 ? fmt.pass('PASS') : fmt.fail('FAIL');
-            spinner.stop(`${status}  ${fmt.bold(reward.toFixed(2))}  ${fmt.dim((duration_ms / 1000).toFixed(1) + 's')}  ${fmt.dim(commandCount + ' cmds')}`);
+            const status = passed ? fmt.pass('PASS') : fmt.fail('FAIL');
+            spinner.stop(`${status}  ${fmt.bold(reward.toFixed(2))}  ${fmt.dim((duration_ms / 1000).toFixed(1) + 's')}  ${fmt.dim(commandCount + ' cmds')}${requiredNote}${skillNote}`);
 
             return {
                 trial_id: index + 1,
                 reward,
+                passed,
                 grader_results: graderResults,
                 duration_ms,
                 n_commands: commandCount,
-                input_tokens,
-                output_tokens,
-                session_log: sessionLog
+                input_tokens: estimateTokens(instruction),
+                output_tokens: estimateTokens(agentResult.output),
+                tokens_estimated: true,
+                session_log: sessionLog,
+                ...meta
             };
         } catch (err: any) {
             const duration_ms = Date.now() - startTime;
@@ -320,46 +552,76 @@ export class EvalRunner {
             return {
                 trial_id: index + 1,
                 reward: 0,
+                passed: false,
                 grader_results: [],
                 duration_ms,
                 n_commands: commandCount,
                 input_tokens: 0,
                 output_tokens: 0,
-                session_log: sessionLog
+                session_log: sessionLog,
+                error: errorMsg
             };
         } finally {
             await this.provider.cleanup(workspace);
         }
     }
 
-    private sanitize(report: EvalReport, env?: Record<string, string>): EvalReport {
+    /** Redact secret env values from a report, as done before it is saved */
+    sanitize(report: EvalReport, env?: Record<string, string>): EvalReport {
         if (!env) return report;
 
-        const sanitized = JSON.parse(JSON.stringify(report));
-        const secrets = Object.values(env);
+        return {
+            ...report,
+            trials: report.trials.map(t => this.sanitizeTrial(t, env)),
+        };
+    }
 
-        const redact = (text: string) => {
-            let result = text;
-            for (const secret of secrets) {
-                if (secret && secret.length > 5) {
-                    result = result.split(secret).join('[REDACTED]');
-                }
+    /** Replace env secret values in text, as done for saved reports */
+    redact(text: string, env?: Record<string, string>): string {
+        let result = text;
+        for (const secret of Object.values(env || {})) {
+            if (secret && secret.length > 5) {
+                result = result.split(secret).join('[REDACTED]');
             }
-            return result;
-        };
+        }
+        return result;
+    }
+
+    /** Deep copy of a trial with env secret values redacted */
+    private sanitizeTrial(trial: TrialResult, env?: Record<string, string>): TrialResult {
+        if (!env) return trial;
 
-        for (const trial of sanitized.trials) {
-            for (const entry of trial.session_log) {
-                if (entry.instruction) entry.instruction = redact(entry.instruction);
-                if (entry.command) entry.command = redact(entry.command);
-                if (entry.stdout) entry.stdout = redact(entry.stdout);
-                if (entry.stderr) entry.stderr = redact(entry.stderr);
-                if (entry.output) entry.output = redact(entry.output);
-                if (entry.grader_result?.details) entry.grader_result.details = redact(entry.grader_result.details);
+        const sanitized = JSON.parse(JSON.stringify(trial));
+        const redact = (text: string) => this.redact(text, env);
+
+        const redactGrader = (gr: GraderResult) => {
+            if (gr.details) gr.details = redact(gr.details);
+            for (const check of gr.checks || []) {
+                if (check.message) check.message = redact(check.message);
             }
-            for (const gr of trial.grader_results) {
-                if (gr.details) gr.details = redact(gr.details);
+        };
+
+        // Skill triggers can quote the full command that read the skill
+        const redactTriggers = (triggers?: SkillTriggerInfo[]) => {
+            for (const t of triggers || []) {
+                if (t.details) t.details = redact(t.details);
             }
+        };
+
+        if (sanitized.raw_output) sanitized.raw_output = redact(sanitized.raw_output);
+        if (sanitized.error) sanitized.error = redact(sanitized.error);
+        redactTriggers(sanitized.skills_triggered);
+        for (const entry of sanitized.session_log) {
+            if (entry.instruction) entry.instruction = redact(entry.instruction);
+            if (entry.command) entry.command = redact(entry.command);
+            if (entry.stdout) entry.stdout = redact(entry.stdout);
+            if (entry.stderr) entry.stderr = redact(entry.stderr);
+            if (entry.output) entry.output = redact(entry.output);
+            if (entry.grader_result) redactGrader(entry.grader_result);
+            redactTriggers(entry.skills_triggered);
+        }
+        for (const gr of sanitized.grader_results) {
+            redactGrader(gr);
         }
 
         return sanitized;
@@ -370,7 +632,7 @@ export class EvalRunner {
 
         await fs.ensureDir(this.logDir);
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const fileName = `${report.task}_${timestamp}.json`;
+        const fileName = `${report.task}${report.baseline ? '_baseline' : ''}_${timestamp}.json`;
         const filePath = path.join(this.logDir, fileName);
 
         await fs.writeJSON(filePath, report, { spaces: 2 });
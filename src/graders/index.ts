@@ -1,4 +1,6 @@
-import { GraderConfig, GraderResult, EnvironmentProvider } from '../types';
+import {
+    GraderConfig, GraderResult, GraderCheck, EnvironmentProvider, SkillExpectations, SkillTriggerInfo
+} from '../types';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 
@@ -50,22 +52,18 @@ export class DeterministicGrader implements Grader {
             const parsed = JSON.parse(jsonMatch[0]);
             const score = Math.max(0, Math.min(1, parseFloat(parsed.score) || 0));
             const details = parsed.details || `score=${score.toFixed(2)}`;
-            const checks = parsed.checks || [];
+            const checks = parseChecks(parsed.checks);
 
-            // Build rich details string with per-check breakdown
-            const checkLines = checks.map((c: any) =>
-                `  ${c.passed ? '✓' : '✗'} ${c.name}: ${c.message || ''}`
-            );
-            const fullDetails = checkLines.length > 0
-                ? `${details}\n${checkLines.join('\n')}`
-                : details;
-
-            return {
+            const result: GraderResult = {
                 grader_type: 'deterministic',
                 score,
                 weight: config.weight,
-                details: fullDetails
+                details
             };
+            if (checks.length > 0) {
+                result.checks = checks;
+            }
+            return result;
         } catch (e) {
             return {
                 grader_type: 'deterministic',
@@ -77,6 +75,18 @@ export class DeterministicGrader implements Grader {
     }
 }
 
+/** Normalize the optional `checks` array from grader JSON, dropping malformed entries */
+function parseChecks(raw: unknown): GraderCheck[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((c: any) => c && typeof c === 'object' && c.name != null)
+        .map((c: any) => ({
+            name: String(c.name),
+            passed: c.passed === true || c.passed === 'true',
+            message: c.message != null ? String(c.message) : '',
+        }));
+}
+
 /**
  * Uses an LLM to evaluate the agent's session transcript against a rubric.
  * Requires GEMINI_API_KEY or ANTHROPIC_API_KEY in the environment.
@@ -131,9 +141,12 @@ export class LLMGrader implements Grader {
             .filter(e => e.type === 'grader' && e.grader_result)
             .map(e => e.grader_result!);
         if (priorGraders.length > 0) {
-            const results = priorGraders.map(g =>
-                `- ${g.grader_type}: score=${g.score.toFixed(2)} — ${g.details}`
-            ).join('\n');
+            const results = priorGraders.map(g => {
+                const checkLines = (g.checks || []).map((c: GraderCheck) =>
+                    `\n  ${c.passed ? '✓' : '✗'} ${c.name}: ${c.message}`
+                ).join('');
+                return `- ${g.grader_type}: score=${g.score.toFixed(2)} — ${g.details}${checkLines}`;
+            }).join('\n');
             sections.push(`## Prior Grader Results (automated tests)\n${results}`);
         }
 
@@ -250,11 +263,96 @@ Respond with ONLY a JSON object: {"score": <number>, "reasoning": "<brief explan
     }
 }
 
+/** Trigger sources from weakest to strongest evidence that a skill was used */
+const SOURCE_RANK: Record<SkillTriggerInfo['source'], number> = {
+    init_list: 0,
+    file_read: 1,
+    tool_use: 2,
+};
+
+/**
+ * Scores skill discovery from the skills the agent reported triggering.
+ *
+ * Expectations (JSON file, all optional):
+ *   { "skills": [...], "forbidden_skills": [...], "min_source": "file_read" }
+ *
+ * - skills: score is the fraction of these that were triggered (default: any skill → 1.0)
+ * - forbidden_skills: triggering any of these scores 0
+ * - min_source: weakest detection source that counts (init_list < file_read < tool_use)
+ */
+export class SkillTriggeredGrader implements Grader {
+    async grade(
+        _workspace: string,
+        _provider: EnvironmentProvider,
+        config: GraderConfig,
+        taskPath: string,
+        sessionLog: any[],
+        _env?: Record<string, string>
+    ): Promise<GraderResult> {
+        const expectationsPath = path.join(taskPath, config.expectations || 'expectations/skills.json');
+        const expectations: SkillExpectations = await fs.pathExists(expectationsPath)
+            ? await fs.readJSON(expectationsPath)
+            : {};
+
+        const agentEntry = sessionLog.find(e => e.type === 'agent_result');
+        if (!agentEntry?.skills_triggered) {
+            return {
+                grader_type: 'skill_triggered',
+                score: 0,
+                weight: config.weight,
+                details: 'Agent did not report skill usage (structured output not supported)'
+            };
+        }
+
+        const minRank = SOURCE_RANK[expectations.min_source || 'file_read'];
+        const triggered = new Set<string>(
+            (agentEntry.skills_triggered as SkillTriggerInfo[])
+                .filter(s => SOURCE_RANK[s.source] >= minRank)
+                .map(s => s.name)
+        );
+
+        const checks: GraderCheck[] = [];
+        const required = expectations.skills || [];
+        for (const name of required) {
+            const passed = triggered.has(name);
+            checks.push({ name: `triggered:${name}`, passed, message: passed ? `${name} was triggered` : `${name} was not triggered` });
+        }
+        for (const name of expectations.forbidden_skills || []) {
+            const passed = !triggered.has(name);
+            checks.push({ name: `not-triggered:${name}`, passed, message: passed ? `${name} was not triggered` : `${name} was triggered` });
+        }
+
+        const forbiddenHit = (expectations.forbidden_skills || []).some(name => triggered.has(name));
+        let score: number;
+        if (forbiddenHit) {
+            score = 0;
+        } else if (required.length > 0) {
+            score = required.filter(name => triggered.has(name)).length / required.length;
+        } else {
+            score = triggered.size > 0 ? 1 : 0;
+        }
+
+        const result: GraderResult = {
+            grader_type: 'skill_triggered',
+            score,
+            weight: config.weight,
+            details: triggered.size > 0
+                ? `Triggered: ${[...triggered].join(', ')}`
+                : 'No skill was triggered'
+        };
+        if (checks.length > 0) {
+            result.checks = checks;
+        }
+        return result;
+    }
+}
+
 /** Resolve a grader implementation by type */
 export function getGrader(type: string): Grader {
     switch (type) {
         case 'deterministic': return new DeterministicGrader();
         case 'llm_rubric': return new LLMGrader();
+        case 'skill_triggered': return new SkillTriggeredGrader();
         default: throw new Error(`Unknown grader type: ${type}`);
     }
 }
@@ -4,9 +4,13 @@ import * as path from 'path';
 import * as tar from 'tar-stream';
 import { EnvironmentProvider, EnvironmentSetupOpts, CommandResult } from '../types';
 
+/** Skill discovery paths inside the container (Gemini and Claude conventions) */
+const SKILL_DISCOVERY_DIRS = ['/workspace/.agents/skills', '/workspace/.claude/skills'];
+
 export class DockerProvider implements EnvironmentProvider {
     private docker: Docker;
     private preparedImage?: string;
+    private injectedSkills: string[] = [];
     private setupOpts?: EnvironmentSetupOpts;
     private envPairs: string[] = [];
 
@@ -50,8 +54,7 @@ export class DockerProvider implements EnvironmentProvider {
 
             await tmpContainer.start();
 
-            const discoveryDirs = ['/workspace/.agents/skills', '/workspace/.claude/skills'];
-            for (const dir of discoveryDirs) {
+            for (const dir of SKILL_DISCOVERY_DIRS) {
                 const mkdirExec = await tmpContainer.exec({ Cmd: ['mkdir', '-p', dir], AttachStdout: true, AttachStderr: true });
                 const mkdirStream = await mkdirExec.start({});
                 await new Promise<void>((resolve) => {
@@ -70,6 +73,7 @@ export class DockerProvider implements EnvironmentProvider {
             // Commit the container with skills baked in
             const committed = await tmpContainer.commit({ repo: `${baseName}-ready` });
             this.preparedImage = `${baseName}-ready`;
+            this.injectedSkills = skillsPaths.map(p => path.basename(p));
 
             // Clean up temp container and base image
             await tmpContainer.kill().catch(() => { });
@@ -77,6 +81,7 @@ export class DockerProvider implements EnvironmentProvider {
             await this.docker.getImage(baseName).remove({ force: true }).catch(() => { });
         } else {
             this.preparedImage = baseName;
+            this.injectedSkills = [];
         }
 
         return this.preparedImage;
@@ -108,6 +113,14 @@ export class DockerProvider implements EnvironmentProvider {
         });
 
         await container.start();
+
+        // Baseline trials reuse the prepared image — strip skills that weren't requested
+        const excluded = this.injectedSkills.filter(name => !skillsPaths.some(p => path.basename(p) === name));
+        if (excluded.length > 0) {
+            const targets = excluded.flatMap(name => SKILL_DISCOVERY_DIRS.map(dir => `'${dir}/${name}'`));
+            await this.runCommand(container.id, `rm -rf ${targets.join(' ')}`);
+        }
+
         return container.id;
     }
 
@@ -137,6 +150,7 @@ export class DockerProvider implements EnvironmentProvider {
                 // Already removed
             }
             this.preparedImage = undefined;
+            this.injectedSkills = [];
         }
     }
 
@@ -1,23 +1,52 @@
 import * as http from 'http';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { loadReports, loadRuns, SavedReport } from '../analytics/reports';
+import { RunManifest } from '../types';
+
+const VIEWER_PATH = path.join(__dirname, '..', 'viewer.html');
+
+/** All reports in the results directory, newest first, tagged with their file name */
+async function loadViewerReports(resolved: string): Promise<SavedReport[]> {
+    return (await loadReports(resolved)).reverse();
+}
+
+/** Run manifests by run_id; they live in the runs/ directory next to results/ */
+async function loadViewerRuns(resolved: string): Promise<Record<string, RunManifest>> {
+    return Object.fromEntries(await loadRuns(path.join(resolved, '..', 'runs')));
+}
+
+/**
+ * Write the viewer as a single offline HTML file with every report embedded,
+ * so results can be shared as a CI artifact and opened without skillgrade.
+ */
+export async function exportHtmlReport(resultsDir: string, outFile: string): Promise<number> {
+    const resolved = path.resolve(resultsDir);
+    const reports = await loadViewerReports(resolved);
+    const runs = await loadViewerRuns(resolved);
+    const html = await fs.readFile(VIEWER_PATH, 'utf-8');
+
+    // Escape "<" so report content can't close the script tag
+    const json = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+    const embedded = html.replace('<script>', () =>
+        `<script>window.SKILLGRADE_REPORTS = ${json(reports)}; window.SKILLGRADE_RUNS = ${json(runs)};</script>\n  <script>`);
+
+    await fs.ensureDir(path.dirname(path.resolve(outFile)));
+    await fs.writeFile(outFile, embedded);
+    return reports.length;
+}
 
 export async function runBrowserPreview(resultsDir: string, port: number = 3847) {
     const resolved = path.resolve(resultsDir);
-    const htmlPath = path.join(__dirname, '..', 'viewer.html');
 
     const server = http.createServer(async (req, res) => {
         const url = new URL(req.url || '/', `http://localhost:${port}`);
 
-        if (url.pathname === '/api/reports') {
-            const files = (await fs.readdir(resolved)).filter(f => f.endsWith('.json')).reverse();
-            const reports = [];
-            for (const file of files) {
-                try {
-                    const report = await fs.readJSON(path.join(resolved, file));
-                    reports.push({ file, ...report });
-                } catch { /* skip malformed */ }
-            }
+        if (url.pathname === '/api/runs') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(await loadViewerRuns(resolved)));
+        } else if (url.pathname === '/api/reports') {
+            const reports = await loadViewerReports(resolved);
             res.writeHead(200, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify(reports));
         } else if (url.pathname === '/api/report') {
@@ -32,7 +61,7 @@ export async function runBrowserPreview(resultsDir: string, port: number = 3847)
                 res.writeHead(404); res.end('Not found');
             }
         } else {
-            const html = await fs.readFile(htmlPath, 'utf-8');
+            const html = await fs.readFile(VIEWER_PATH, 'utf-8');
             res.writeHead(200, { 'Content-Type': 'text/html' });
             res.end(html);
         }
@@ -1,31 +1,31 @@
-import * as fs from 'fs-extra';
 import * as path from 'path';
-import { fmt, header } from '../utils/cli';
+import { fmt, header, formatTokens, formatCost, formatInterval } from '../utils/cli';
+import { summarizeChecks, summarizeUsage, trialPassed } from '../analytics/engine';
+import { loadReports } from '../analytics/reports';
+import { CheckSummary } from '../types';
 
 // ─── Main ──────────────────────────────────────────────────
 export async function runCliPreview(resultsDir: string) {
     const resolved = path.resolve(resultsDir);
-    const files = (await fs.readdir(resolved))
-        .filter(f => f.endsWith('.json'))
-        .reverse();
+    const reports: any[] = (await loadReports(resolved)).reverse();
 
-    if (!files.length) {
+    if (!reports.length) {
         console.log(`\n  ${fmt.dim('No reports found in')} ${resolved}\n`);
         return;
     }
 
-    console.log(`\n${fmt.bold('skillgrade preview')}  ${fmt.dim(`${files.length} reports from ${resolved}`)}\n`);
+    console.log(`\n${fmt.bold('skillgrade preview')}  ${fmt.dim(`${reports.length} reports from ${resolved}`)}\n`);
 
-    for (const file of files) {
-        let report: any;
-        try { report = await fs.readJSON(path.join(resolved, file)); }
-        catch { continue; }
+    for (const report of reports) {
+        const file: string = report.file;
 
         const passRate = report.pass_rate ?? 0;
-        const isPass = passRate >= 0.5;
+        const passThreshold = report.pass_threshold ?? 0.5;
+        const isPass = passRate >= passThreshold;
         const trials = report.trials || [];
         const avgDur = trials.reduce((s: number, t: any) => s + (t.duration_ms || 0), 0) / (trials.length || 1);
-        const totalTokens = trials.reduce((s: number, t: any) => s + (t.input_tokens || 0) + (t.output_tokens || 0), 0);
+        const usage = report.usage || summarizeUsage(trials);
+        const hasCost = trials.some((t: any) => t.cost_usd != null);
 
         // ── Report header
         const status = isPass ? fmt.pass('PASS') : fmt.fail('FAIL');
@@ -33,18 +33,42 @@ export async function runCliPreview(resultsDir: string) {
 
         // Timestamp from filename
         const ts = file.match(/\d{4}-\d{2}-\d{2}T[\d-]+/)?.[0]?.replace(/-(\d{2})-(\d{2})-/g, ':$1:$2:') || '';
-        if (ts) console.log(`    ${fmt.dim(ts)}`);
+        if (ts || report.run_id) console.log(`    ${fmt.dim([ts, report.run_id && `run ${report.run_id}`].filter(Boolean).join('  '))}`);
         console.log();
 
         // ── Summary metrics
+        const ci = (key: 'pass_rate' | 'pass_at_k' | 'pass_pow_k') => report.confidence ? ` ${formatInterval(report.confidence[key])}` : '';
         const metrics = [
-            ['Pass Rate', `${(passRate * 100).toFixed(1)}%`],
-            ['pass@k', report.pass_at_k != null ? `${(report.pass_at_k * 100).toFixed(1)}%` : '—'],
-            ['pass^k', report.pass_pow_k != null ? `${(report.pass_pow_k * 100).toFixed(1)}%` : '—'],
+            ['Pass Rate', `${(passRate * 100).toFixed(1)}%${ci('pass_rate')}`],
+            ['pass@k', report.pass_at_k != null ? `${(report.pass_at_k * 100).toFixed(1)}%${ci('pass_at_k')}` : '—'],
+            ['pass^k', report.pass_pow_k != null ? `${(report.pass_pow_k * 100).toFixed(1)}%${ci('pass_pow_k')}` : '—'],
+            ['Pass Criterion', `reward ≥ ${passThreshold.toFixed(2)}`],
             ['Avg Duration', `${(avgDur / 1000).toFixed(1)}s`],
-            ['Total Tokens', `~${totalTokens}`],
+            ['Total Tokens', formatTokens(usage.input_tokens + usage.output_tokens, usage.tokens_estimated)],
+            ['Total Cost', usage.cost_usd != null ? formatCost(usage.cost_usd) : '—'],
             ['Skills', report.skills_used?.join(', ') || 'none'],
         ];
+        if (report.agent) {
+            metrics.push(['Agent', [report.agent, report.model].filter(Boolean).join(' ')]);
+        }
+        if (report.adaptive) {
+            const { stopped, threshold } = report.adaptive;
+            const reason = stopped === 'max_trials' ? 'hit max trials' : `${stopped.replace('_', ' ')} ${(threshold * 100).toFixed(0)}%`;
+            metrics.push(['Adaptive', `${trials.length} trials (${reason})`]);
+        }
+        if (report.skill_trigger_rate != null) {
+            metrics.push(['Skill Used', `${(report.skill_trigger_rate * 100).toFixed(1)}%`]);
+        }
+        if (report.tool_usage?.length) {
+            metrics.push(['Top Tools', report.tool_usage.slice(0, 5).map((t: any) => `${t.name} (${t.trials})`).join(', ')]);
+        }
+        if (report.distractor_skills?.length) {
+            metrics.push(['Distractors', report.distractor_skills.join(', ')]);
+        }
+        if (report.skill_selection) {
+            const sel = report.skill_selection;
+            metrics.push(['Selection', `${(sel.accuracy * 100).toFixed(1)}% (P ${(sel.precision * 100).toFixed(0)}% / R ${(sel.recall * 100).toFixed(0)}%)`]);
+        }
 
         for (const [label, value] of metrics) {
             console.log(`    ${fmt.dim(label.padEnd(14))} ${fmt.bold(value)}`);
@@ -53,21 +77,35 @@ export async function runCliPreview(resultsDir: string) {
 
         // ── Trials
         for (const trial of trials) {
-            const tp = trial.reward >= 0.5;
+            const tp = trialPassed(trial, passThreshold);
             const trialStatus = tp ? fmt.pass('PASS') : fmt.fail('FAIL');
             const reward = fmt.bold(trial.reward.toFixed(2));
             const dur = `${((trial.duration_ms || 0) / 1000).toFixed(1)}s`;
             const cmds = `${trial.n_commands || 0} cmds`;
+            const cost = hasCost ? (trial.cost_usd != null ? formatCost(trial.cost_usd) : '—') : '';
             const graders = (trial.grader_results || []).map((g: any) => {
                 const scoreStr = g.score.toFixed(1);
-                const colored = g.score >= 0.5 ? fmt.green(scoreStr) : fmt.red(scoreStr);
-                return `${fmt.dim(g.grader_type)} ${colored}`;
+                const colored = g.score >= (g.pass_threshold ?? passThreshold) ? fmt.green(scoreStr) : fmt.red(scoreStr);
+                return `${fmt.dim(`${g.grader_type}${g.required ? '*' : ''}`)} ${colored}`;
             }).join('  ');
 
-            console.log(`    ${fmt.dim(`${trial.trial_id}`.padEnd(4))} ${trialStatus}  ${reward}  ${fmt.dim(dur.padEnd(7))} ${fmt.dim(cmds.padEnd(7))} ${graders}`);
+            console.log(`    ${fmt.dim(`${trial.trial_id}`.padEnd(4))} ${trialStatus}  ${reward}  ${fmt.dim(dur.padEnd(7))} ${fmt.dim(cmds.padEnd(7))} ${hasCost ? `${fmt.dim(cost.padEnd(8))} ` : ''}${graders}`);
         }
         console.log();
 
+        // ── Per-check pass rates across trials
+        const checks: CheckSummary[] = report.checks || summarizeChecks(trials);
+        if (checks.length > 0) {
+            const nameWidth = Math.max(...checks.map(c => c.name.length), 5);
+            console.log(`    ${fmt.dim('Check'.padEnd(nameWidth))}  ${fmt.dim('Passed'.padStart(7))}  ${fmt.dim('Rate'.padStart(6))}`);
+            for (const c of checks) {
+                const rate = `${(c.pass_rate * 100).toFixed(0)}%`.padStart(6);
+                const colored = c.pass_rate >= 0.5 ? fmt.green(rate) : fmt.red(rate);
+                console.log(`    ${c.name.padEnd(nameWidth)}  ${`${c.passed}/${c.total}`.padStart(7)}  ${colored}`);
+            }
+            console.log();
+        }
+
         // ── LLM grader details
         const hasLlm = trials.some((t: any) => t.grader_results?.some((g: any) => g.grader_type === 'llm_rubric'));
         if (hasLlm) {
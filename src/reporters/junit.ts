@@ -0,0 +1,177 @@
+/**
+ * JUnit XML reporter.
+ *
+ * Each task becomes a <testsuite> and each trial a <testcase>. Trials that
+ * miss the pass criterion get a <failure> listing the graders and checks that
+ * failed; trials that crashed before grading get an <error>. A task whose
+ * evaluation failed outright (no report) becomes a suite with one errored
+ * testcase. The session log is attached as <system-out> so CI dashboards can
+ * show what the agent did.
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvalReport, FailedEval, TrialResult, LogEntry } from '../types';
+import { trialPassed } from '../analytics/engine';
+
+/** Render reports, and the evaluations that failed without one, as a JUnit XML document */
+export function formatJUnit(reports: EvalReport[], failed: FailedEval[] = []): string {
+    const all = [...reports, ...failed];
+    const suites = [
+        ...reports.map(r => formatSuite(r, suiteName(r, all))),
+        ...failed.map(f => formatFailedSuite(f, suiteName(f, all))),
+    ];
+    const totals = reports.reduce((acc, r) => {
+        const counts = countOutcomes(r);
+        return {
+            tests: acc.tests + r.trials.length,
+            failures: acc.failures + counts.failures,
+            errors: acc.errors + counts.errors,
+            time: acc.time + totalSeconds(r.trials),
+        };
+    }, { tests: failed.length, failures: 0, errors: failed.length, time: 0 });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="skillgrade" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" time="${totals.time.toFixed(3)}">`,
+        ...suites,
+        '</testsuites>',
+        '',
+    ].join('\n');
+}
+
+/** Write reports to a JUnit XML file, creating its directory if needed */
+export async function writeJUnitReport(reports: EvalReport[], file: string, failed: FailedEval[] = []): Promise<void> {
+    await fs.ensureDir(path.dirname(path.resolve(file)));
+    await fs.writeFile(file, formatJUnit(reports, failed));
+}
+
+type SuiteSource = Pick<EvalReport, 'task' | 'agent' | 'model'>;
+
+/** Task name, plus agent and model when a matrix run produced several suites for the task */
+function suiteName(suite: SuiteSource, all: SuiteSource[]): string {
+    if (all.filter(s => s.task === suite.task).length < 2 || !suite.agent) return suite.task;
+    return `${suite.task} [${[suite.agent, suite.model].filter(Boolean).join(' ')}]`;
+}
+
+/** A suite with a single errored testcase, for an evaluation that failed before producing a report */
+function formatFailedSuite(failed: FailedEval, name: string): string {
+    return [
+        `  <testsuite name="${attr(name)}" tests="1" failures="0" errors="1" time="0.000">`,
+        '    <properties>',
+        ...[['agent', failed.agent], ['model', failed.model]]
+            .filter(([, value]) => value)
+            .map(([name, value]) => `      <property name="${name}" value="${attr(value!)}"/>`),
+        '    </properties>',
+        `    <testcase name="evaluation" classname="skillgrade.${attr(name)}" time="0.000">`,
+        `      <error message="${attr(firstLine(failed.error))}" type="error">${text(failed.error)}</error>`,
+        '    </testcase>',
+        '  </testsuite>',
+    ].join('\n');
+}
+
+function formatSuite(report: EvalReport, name: string): string {
+    const threshold = report.pass_threshold ?? 0.5;
+    const { failures, errors } = countOutcomes(report);
+    const properties: Array<[string, string | number | undefined]> = [
+        ['agent', report.agent],
+        ['model', report.model],
+        ['pass_rate', report.pass_rate],
+        ['pass_at_k', report.pass_at_k],
+        ['pass_pow_k', report.pass_pow_k],
+        ['pass_threshold', threshold],
+        ['skills', report.skills_used.join(', ')],
+        ['skill_trigger_rate', report.skill_trigger_rate],
+    ];
+
+    const lines = [
+        `  <testsuite name="${attr(name)}" tests="${report.trials.length}" failures="${failures}" errors="${errors}" time="${totalSeconds(report.trials).toFixed(3)}">`,
+        '    <properties>',
+        ...properties
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([name, value]) => `      <property name="${name}" value="${attr(String(value))}"/>`),
+        '    </properties>',
+    ];
+
+    for (const trial of report.trials) {
+        lines.push(`    <testcase name="trial ${trial.trial_id}" classname="skillgrade.${attr(name)}" time="${seconds(trial).toFixed(3)}">`);
+        const error = trialError(trial);
+        if (error !== undefined) {
+            lines.push(`      <error message="${attr(firstLine(error))}" type="error">${text(error)}</error>`);
+        } else if (!trialPassed(trial, threshold)) {
+            lines.push(`      <failure message="${attr(`reward ${trial.reward.toFixed(2)} below ${threshold.toFixed(2)}`)}" type="failure">${text(failureDetails(trial, threshold))}</failure>`);
+        }
+        const log = formatSessionLog(trial.session_log || []);
+        if (log) {
+            lines.push(`      <system-out>${cdata(log)}</system-out>`);
+        }
+        lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+    return lines.join('\n');
+}
+
+function countOutcomes(report: EvalReport): { failures: number; errors: number } {
+    const threshold = report.pass_threshold ?? 0.5;
+    let failures = 0;
+    let errors = 0;
+    for (const trial of report.trials) {
+        if (trialError(trial) !== undefined) errors++;
+        else if (!trialPassed(trial, threshold)) failures++;
+    }
+    return { failures, errors };
+}
+
+/** Error of a trial that crashed before grading, with the provider diagnostics the session log recorded */
+function trialError(trial: TrialResult): string | undefined {
+    if (trial.error === undefined) return undefined;
+    const reward = [...(trial.session_log || [])].reverse().find(e => e.type === 'reward');
+    return reward?.output ?? trial.error;
+}
+
+/** Failing graders (with their failed checks) of a trial below the pass criterion */
+function failureDetails(trial: TrialResult, threshold: number): string {
+    const lines: string[] = [];
+    for (const g of trial.grader_results) {
+        const min = g.pass_threshold ?? threshold;
+        if (g.score >= min) continue;
+        lines.push(`${g.grader_type}${g.required ? ' (required)' : ''}: ${g.score.toFixed(2)} < ${min.toFixed(2)} — ${g.details}`);
+        for (const c of (g.checks || []).filter(c => !c.passed)) {
+            lines.push(`  ✗ ${c.name}: ${c.message}`);
+        }
+    }
+    return lines.length > 0 ? lines.join('\n') : `reward ${trial.reward.toFixed(2)} below ${threshold.toFixed(2)}`;
+}
+
+function formatSessionLog(log: LogEntry[]): string {
+    return log.map(e => {
+        switch (e.type) {
+            case 'agent_start':
+                return `[${e.timestamp}] agent_start\n${e.instruction || ''}`;
+            case 'command':
+                return [`[${e.timestamp}] $ ${e.command}`, e.stdout, e.stderr, `exit ${e.exitCode ?? '?'}`]
+                    .filter(Boolean).join('\n');
+            case 'agent_result':
+                return `[${e.timestamp}] agent_result\n${e.output || ''}`;
+            case 'grader':
+                return e.grader_result
+                    ? `[${e.timestamp}] grader ${e.grader_result.grader_type} ${e.grader_result.score.toFixed(2)}: ${e.grader_result.details}`
+                    : `[${e.timestamp}] grader`;
+            case 'reward':
+                return `[${e.timestamp}] reward ${(e.value ?? 0).toFixed(2)}${e.output ? `\n${e.output}` : ''}`;
+            default:
+                return `[${e.timestamp}] ${e.type}`;
+        }
+    }).join('\n\n');
+}
+
+const seconds = (trial: TrialResult) => (trial.duration_ms || 0) / 1000;
+const totalSeconds = (trials: TrialResult[]) => trials.reduce((sum, t) => sum + seconds(t), 0);
+const firstLine = (s: string) => s.split('\n')[0].substring(0, 200);
+
+/** Drop characters XML 1.0 cannot represent, such as the ESC in ANSI colour codes */
+const xmlSafe = (s: string) => s.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '');
+
+const text = (s: string) => xmlSafe(s).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const attr = (s: string) => text(s).replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+const cdata = (s: string) => `<![CDATA[${xmlSafe(s).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
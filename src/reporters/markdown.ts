@@ -0,0 +1,127 @@
+/**
+ * Markdown summary reporter.
+ *
+ * Renders a compact run summary for pull-request comments and GitHub's job
+ * summary: one table row per task, then a collapsible section per task with
+ * mean grader scores, failing checks and short LLM grader reasoning. Tasks
+ * whose evaluation failed outright get a ❌ row with the error.
+ */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvalReport, FailedEval, CheckSummary } from '../types';
+import { summarizeChecks, trialPassed } from '../analytics/engine';
+
+export interface MarkdownOptions {
+    title: string;
+    threshold: number;                          // pass rate threshold for --ci
+    passed: (report: EvalReport) => boolean;    // whether the task meets the threshold
+}
+
+/** LLM grader reasoning is cut to this many characters per trial */
+const REASONING_LENGTH = 200;
+
+/** Render reports, and the evaluations that failed without one, as a markdown summary */
+export function formatMarkdown(reports: EvalReport[], opts: MarkdownOptions, failed: FailedEval[] = []): string {
+    const all = [...reports, ...failed];
+    const passing = reports.filter(opts.passed).length;
+    const lines = [
+        `## ${opts.title}`,
+        '',
+        `${passing}/${all.length} evals at or above the ${pct(opts.threshold, 0)} pass rate threshold.`,
+        '',
+        '| Eval | Pass Rate | pass@k | pass^k | Trials | Status |',
+        '|------|----------:|-------:|-------:|-------:|:------:|',
+        ...reports.map(r => {
+            const ci = r.confidence ? ` (${pct(r.confidence.pass_rate.lower)}–${pct(r.confidence.pass_rate.upper)})` : '';
+            return `| ${cell(label(r, all))} | ${pct(r.pass_rate)}${ci} | ${pct(r.pass_at_k)} | ${pct(r.pass_pow_k)} | ${r.trials.length} | ${opts.passed(r) ? '✅' : '❌'} |`;
+        }),
+        ...failed.map(f => `| ${cell(label(f, all))} | — | — | — | — | ❌ evaluation failed: ${oneLine(f.error.split('\n')[0])} |`),
+    ];
+
+    for (const report of reports) {
+        lines.push('', ...formatTask(report, label(report, all)));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/** Write the summary to a file, and append it to GitHub's job summary when running in Actions */
+export async function writeMarkdownReport(reports: EvalReport[], file: string, opts: MarkdownOptions, failed: FailedEval[] = []): Promise<string | undefined> {
+    const markdown = formatMarkdown(reports, opts, failed);
+    await fs.ensureDir(path.dirname(path.resolve(file)));
+    await fs.writeFile(file, markdown);
+
+    const stepSummary = process.env.GITHUB_STEP_SUMMARY;
+    if (stepSummary) {
+        await fs.appendFile(stepSummary, markdown + '\n');
+    }
+    return stepSummary;
+}
+
+type RowSource = Pick<EvalReport, 'task' | 'agent' | 'model'>;
+
+/** Task name, plus agent and model when a matrix run produced several rows for the task */
+function label(row: RowSource, all: RowSource[]): string {
+    if (all.filter(r => r.task === row.task).length < 2 || !row.agent) return row.task;
+    return `${row.task} (${[row.agent, row.model].filter(Boolean).join(' ')})`;
+}
+
+function formatTask(report: EvalReport, name: string): string[] {
+    const threshold = report.pass_threshold ?? 0.5;
+    const passedTrials = report.trials.filter(t => trialPassed(t, threshold)).length;
+    const lines = [
+        '<details>',
+        `<summary><b>${html(name)}</b> — ${passedTrials}/${report.trials.length} trials passed (reward ≥ ${threshold.toFixed(2)})</summary>`,
+        '',
+    ];
+
+    const graders = graderMeans(report);
+    if (graders.length > 0) {
+        lines.push('| Grader | Mean Score |', '|--------|-----------:|');
+        for (const g of graders) {
+            lines.push(`| ${cell(g.name)} | ${g.mean.toFixed(2)} |`);
+        }
+        lines.push('');
+    }
+
+    const checks: CheckSummary[] = report.checks || summarizeChecks(report.trials);
+    const failing = checks.filter(c => c.passed < c.total);
+    if (failing.length > 0) {
+        lines.push('**Failing checks**', '');
+        for (const c of failing) {
+            lines.push(`- \`${c.name}\` passed ${c.passed}/${c.total} (${pct(c.pass_rate, 0)})`);
+        }
+        lines.push('');
+    }
+
+    const reasoning = report.trials.flatMap(t => t.grader_results
+        .filter(g => g.grader_type === 'llm_rubric' && g.details)
+        .map(g => `- trial ${t.trial_id} (${g.score.toFixed(2)}): ${oneLine(g.details)}`));
+    if (reasoning.length > 0) {
+        lines.push('**LLM grader reasoning**', '', ...reasoning, '');
+    }
+
+    lines.push('</details>');
+    return lines;
+}
+
+/** Mean score per grader type across trials, in the order graders first appear */
+function graderMeans(report: EvalReport): Array<{ name: string; mean: number }> {
+    const scores = new Map<string, number[]>();
+    for (const trial of report.trials) {
+        for (const g of trial.grader_results) {
+            const name = g.required ? `${g.grader_type} (required)` : g.grader_type;
+            scores.set(name, [...(scores.get(name) || []), g.score]);
+        }
+    }
+    return [...scores].map(([name, s]) => ({ name, mean: s.reduce((a, b) => a + b, 0) / s.length }));
+}
+
+const pct = (v: number, digits: number = 1) => `${(v * 100).toFixed(digits)}%`;
+const html = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const cell = (s: string) => html(s).replace(/\|/g, '\\|');
+
+function oneLine(s: string): string {
+    const flat = cell(s.replace(/\s+/g, ' ').trim());
+    return flat.length > REASONING_LENGTH ? `${flat.substring(0, REASONING_LENGTH - 1)}…` : flat;
+}
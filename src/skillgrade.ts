@@ -7,20 +7,41 @@
  *   skillgrade                     Run all eval tasks from eval.yaml
  *   skillgrade init                Generate eval.yaml from detected skills
  *   skillgrade preview [browser]   View results (CLI default, or browser)
+ *   skillgrade preview --export=F  Write a self-contained HTML report
+ *   skillgrade analyze             Aggregate saved results per task
+ *   skillgrade compare A B         Compare two runs (report files or results dirs)
+ *   skillgrade history [task]      Pass rate, duration and cost trends across runs
+ *   skillgrade lint                Check eval.yaml, graders and SKILL.md without running agents
+ *   skillgrade list [pattern]      List evals with their tags, agent, trials and graders
  *   skillgrade <task-name>         Run a specific eval
  *
  * Options:
+ *   --eval=GLOB[,GLOB] Run evals by name (* and ? wildcards)
+ *   --tags=T[,T]       Run evals with any of these tags
+ *   --exclude-tags=T   Skip evals with any of these tags
  *   --trials=N         Override trial count
  *   --parallel=N       Run trials concurrently
  *   --validate         Run reference solutions to verify graders
+ *   --baseline         Also run without skills and report normalized gain
+ *   --resume           Continue an interrupted run from its checkpoint
+ *   --adaptive         Add trials until the pass rate is clearly above/below threshold
+ *   --max-trials=N     Trial cap for --adaptive (default: 30)
  *   --ci               CI mode: exit non-zero if below threshold
  *   --threshold=0.8    Pass rate threshold for --ci
+ *   --ci-bound=B       Compare the threshold to the point|lower|upper estimate
+ *   --agent=A[:M][,..] Run every task with each agent (and model), then print a leaderboard
+ *   --reporter=R[,R]   Also write junit (--junit-file) and/or markdown (--markdown-file) reports
  *   --preview          Open results after running
  */
 
 import { runInit } from './commands/init';
-import { runEvals } from './commands/run';
+import { runEvals, CiBound, ReporterName, REPORTERS } from './commands/run';
 import { runPreview } from './commands/preview';
+import { runAnalyze, AnalyzeFormat } from './commands/analyze';
+import { runCompare, CompareFormat } from './commands/compare';
+import { runHistory, HistoryFormat } from './commands/history';
+import { runLint } from './commands/lint';
+import { runList, ListFormat } from './commands/list';
 import { fmt } from './utils/cli';
 import * as os from 'os';
 import * as path from 'path';
@@ -33,6 +54,7 @@ async function main() {
     // Parse global flags
     const getFlag = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
     const hasFlag = (name: string) => args.includes(`--${name}`);
+    const listFlag = (name: string) => getFlag(name)?.split(',').map(s => s.trim()).filter(Boolean);
 
     if (command === '--help' || command === '-h') {
         printHelp();
@@ -53,7 +75,70 @@ async function main() {
     if (command === 'preview') {
         const mode = args[1] === 'browser' ? 'browser' : 'cli';
         const outputDir = getFlag('output') || path.join(os.tmpdir(), 'skillgrade');
-        await runPreview(cwd, mode, outputDir);
+        await runPreview(cwd, mode, outputDir, getFlag('export'));
+        return;
+    }
+
+    if (command === 'analyze') {
+        const format = getFlag('format') || 'table';
+        if (!['table', 'json', 'markdown'].includes(format)) {
+            console.error(`  ${fmt.red('error')}  unknown format "${format}" (expected table|json|markdown)`);
+            process.exit(1);
+        }
+        const outputDir = getFlag('output') || path.join(os.tmpdir(), 'skillgrade');
+        await runAnalyze(cwd, format as AnalyzeFormat, outputDir);
+        return;
+    }
+
+    if (command === 'compare') {
+        const [runA, runB] = args.slice(1).filter(a => !a.startsWith('--'));
+        if (!runA || !runB) {
+            console.error(`  ${fmt.red('error')}  usage: skillgrade compare <runA> <runB>`);
+            process.exit(1);
+        }
+        const format = getFlag('format') || 'table';
+        if (!['table', 'json', 'markdown'].includes(format)) {
+            console.error(`  ${fmt.red('error')}  unknown format "${format}" (expected table|json|markdown)`);
+            process.exit(1);
+        }
+        await runCompare(runA, runB, format as CompareFormat);
+        return;
+    }
+
+    if (command === 'history') {
+        const task = args.slice(1).find(a => !a.startsWith('--'));
+        const format = getFlag('format') || 'table';
+        if (!['table', 'json'].includes(format)) {
+            console.error(`  ${fmt.red('error')}  unknown format "${format}" (expected table|json)`);
+            process.exit(1);
+        }
+        const delta = getFlag('delta') ? parseFloat(getFlag('delta')!) : undefined;
+        if (delta !== undefined && (isNaN(delta) || delta < 0 || delta > 1)) {
+            console.error(`  ${fmt.red('error')}  --delta must be between 0 and 1`);
+            process.exit(1);
+        }
+        const outputDir = getFlag('output') || path.join(os.tmpdir(), 'skillgrade');
+        await runHistory(cwd, outputDir, { task, format: format as HistoryFormat, delta });
+        return;
+    }
+
+    if (command === 'lint') {
+        if (!await runLint(cwd)) process.exit(1);
+        return;
+    }
+
+    if (command === 'list') {
+        const format = getFlag('format') || 'table';
+        if (!['table', 'json'].includes(format)) {
+            console.error(`  ${fmt.red('error')}  unknown format "${format}" (expected table|json)`);
+            process.exit(1);
+        }
+        await runList(cwd, {
+            eval: args.slice(1).find(a => !a.startsWith('--')) ?? getFlag('eval'),
+            tags: listFlag('tags'),
+            excludeTags: listFlag('exclude-tags'),
+            format: format as ListFormat,
+        });
         return;
     }
 
@@ -90,14 +175,37 @@ async function main() {
 
     const outputDir = getFlag('output') || path.join(os.tmpdir(), 'skillgrade');
 
+    const ciBound = getFlag('ci-bound') || 'point';
+    if (!['point', 'lower', 'upper'].includes(ciBound)) {
+        console.error(`  ${fmt.red('error')}  unknown --ci-bound "${ciBound}" (expected point|lower|upper)`);
+        process.exit(1);
+    }
+
+    const reporters = getFlag('reporter')?.split(',').map(r => r.trim()) ?? [];
+    const unknownReporter = reporters.find(r => !REPORTERS.includes(r as ReporterName));
+    if (unknownReporter) {
+        console.error(`  ${fmt.red('error')}  unknown reporter "${unknownReporter}" (expected ${REPORTERS.join('|')})`);
+        process.exit(1);
+    }
+
     await runEvals(cwd, {
         eval: evalFilter,
+        tags: listFlag('tags'),
+        excludeTags: listFlag('exclude-tags'),
         trials: explicitTrials ?? presetTrials,
         parallel: getFlag('parallel') ? parseInt(getFlag('parallel')!) : undefined,
         validate: hasFlag('validate'),
+        baseline: hasFlag('baseline'),
+        resume: hasFlag('resume'),
+        adaptive: hasFlag('adaptive'),
+        maxTrials: getFlag('max-trials') ? parseInt(getFlag('max-trials')!) : undefined,
         ci: hasFlag('ci'),
         threshold: getFlag('threshold') ? parseFloat(getFlag('threshold')!) : undefined,
+        ciBound: ciBound as CiBound,
         preset,
+        reporters: reporters as ReporterName[],
+        junitFile: getFlag('junit-file'),
+        markdownFile: getFlag('markdown-file'),
         agent: getFlag('agent'),
         provider: getFlag('provider'),
         grader: getFlag('grader'),
@@ -120,6 +228,18 @@ function printHelp() {
     skillgrade                     Run all evals from eval.yaml
     skillgrade init [--force]      Generate eval.yaml (--force to overwrite)
     skillgrade preview [browser]   View results (CLI default, or browser)
+    skillgrade preview --export=report.html
+                                   Write the web UI and all results to one offline file
+    skillgrade analyze [--format=table|json|markdown]
+                                   Aggregate saved results per task
+    skillgrade compare <runA> <runB> [--format=table|json|markdown]
+                                   Compare two runs (report files or results dirs)
+    skillgrade history [eval] [--delta=0.1] [--format=table|json]
+                                   Trends across saved runs; flags pass-rate drops > delta
+    skillgrade lint                Check eval.yaml, graders and SKILL.md without running
+                                   agents (exits non-zero on errors)
+    skillgrade list [pattern] [--tags=T] [--format=table|json]
+                                   List evals with their tags, agent, trials and graders
     skillgrade <eval-name>         Run a specific eval
 
   Presets:
@@ -128,11 +248,17 @@ function printHelp() {
     --regression       High-confidence regression (30 trials, reports pass^k)
 
   Options:
-    --eval=NAME[,NAME] Run specific evals by name (comma-separated)
-    --grader=TYPE      Run only graders of this type (deterministic|llm_rubric)
+    --eval=NAME[,NAME] Run specific evals by name (comma-separated, * and ? wildcards)
+    --tags=TAG[,TAG]   Run only evals with at least one of these tags
+    --exclude-tags=TAG[,TAG]
+                       Skip evals with any of these tags
+    --grader=TYPE      Run only graders of this type (deterministic|llm_rubric|skill_triggered)
     --trials=N         Override trial count (overrides preset)
     --parallel=N       Run trials concurrently
     --agent=gemini|claude|codex|acp|opencode   Override agent (default: auto-detect from API key)
+    --agent=AGENT[:MODEL],...
+                       Matrix run: every eval once per agent/model, then a
+                       leaderboard per eval (overrides matrix: in eval.yaml)
     --provider=docker|local Override provider (default: docker)
     --acp-command=CMD  ACP agent command (e.g., "gemini --acp")
     --opencode-agent=NAME   OpenCode agent (build|plan|explore)
@@ -140,8 +266,23 @@ function printHelp() {
     --output=DIR       Output directory for reports and temp files
                        Default: $TMPDIR/skillgrade
     --validate         Verify graders using reference solutions
+    --baseline         Also run each eval without skills (reports normalized gain)
+    --resume           Skip trials already completed by an interrupted run
+    --adaptive         Start with the preset/--trials count, then add trials until
+                       the 95% pass-rate interval is clearly above or below the threshold
+    --max-trials=N     Trial cap for --adaptive (default: 30)
     --ci               CI mode: exit non-zero if below threshold
     --threshold=0.8    Pass rate threshold for CI mode
+    --ci-bound=point|lower|upper
+                       Pass rate estimate checked in CI mode (default: point)
+                       lower: 95% lower bound must clear the threshold
+                       upper: fail only if the 95% upper bound is below it
+    --reporter=junit,markdown
+                       Also write a JUnit XML report (one testsuite per eval)
+                       and/or a markdown summary (appended to $GITHUB_STEP_SUMMARY if set)
+    --junit-file=PATH  JUnit XML path (default: junit.xml in the eval directory)
+    --markdown-file=PATH
+                       Markdown summary path (default: skillgrade-summary.md)
     --preview          Open CLI results after running
 
   Examples:
@@ -151,9 +292,23 @@ function printHelp() {
     skillgrade --smoke             # quick 5-trial smoke test
     skillgrade --eval=fix-linting  # run a specific eval
     skillgrade --eval=foo,bar      # run multiple evals
+    skillgrade --eval='angular-*'  # run evals matching a glob
+    skillgrade --tags=fast --exclude-tags=slow  # run a tagged subset
     skillgrade --regression --ci   # CI regression with 30 trials
+    skillgrade --ci --reporter=junit  # also write junit.xml for CI dashboards
+    skillgrade --reporter=markdown    # summary for a PR comment
+    skillgrade --smoke --baseline  # measure the skill's impact vs. no skill
+    skillgrade --smoke --adaptive --ci  # add trials only while undecided
+    skillgrade --agent=gemini,claude,codex  # compare agents on every eval
+    skillgrade --agent=claude:claude-opus-4-1,claude:claude-sonnet-4-5  # compare models
     skillgrade --agent=acp --acp-command="gemini --acp"  # use ACP-compatible agent
     skillgrade preview browser     # open web UI
+    skillgrade preview --export=report.html  # shareable report (e.g. CI artifact)
+    skillgrade analyze --format=markdown  # per-task gain table
+    skillgrade compare before/ after/     # did the SKILL.md edit help?
+    skillgrade history fix-linting --delta=0.2  # did a model update degrade it?
+    skillgrade lint                # catch eval.yaml mistakes before a costly run
+    skillgrade list --tags=regression  # which evals would run
 `);
 }
 
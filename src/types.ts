@@ -5,18 +5,36 @@ export interface CommandResult {
 }
 
 export interface GraderConfig {
-    type: 'deterministic' | 'llm_rubric';
+    type: 'deterministic' | 'llm_rubric' | 'skill_triggered';
     command?: string;         // for deterministic: shell command to execute (e.g. 'bash tests/test.sh')
     rubric?: string;          // for llm_rubric: file path to rubric (e.g. 'prompts/quality.md')
     model?: string;           // for llm_rubric: LLM model override
+    expectations?: string;    // for skill_triggered: file path to expectations (e.g. 'expectations/skills.json')
     weight: number;
 }
 
+/** Expectations checked by the skill_triggered grader */
+export interface SkillExpectations {
+    skills?: string[];            // skills that must be triggered (default: any skill)
+    forbidden_skills?: string[];  // skills that must not be triggered
+    min_source?: SkillTriggerInfo['source'];  // weakest detection source that counts (default: file_read)
+}
+
+/** A single named check reported by a deterministic grader */
+export interface GraderCheck {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
 export interface GraderResult {
     grader_type: string;
     score: number;      // 0.0 – 1.0
     weight: number;
     details: string;
+    checks?: GraderCheck[];   // per-check breakdown (deterministic graders)
+    required?: boolean;       // a score below pass_threshold fails the trial
+    pass_threshold?: number;
 }
 
 export interface LogEntry {
@@ -30,20 +48,64 @@ export interface LogEntry {
     output?: string;
     value?: number;
     grader_result?: GraderResult;
+    skills_triggered?: SkillTriggerInfo[];  // on agent_result, when the agent reports structured output
 }
 
 export interface TrialResult {
     trial_id: number;
-    reward: number;           // 0.0 – 1.0 weighted score
+    reward: number;           // 0.0 – 1.0 weighted score (0 when a required grader failed)
+    passed?: boolean;         // reward >= the task's pass_threshold (unset in older reports)
     grader_results: GraderResult[];
     duration_ms: number;
     n_commands: number;
-    input_tokens: number;     // estimated from instruction length
-    output_tokens: number;    // estimated from agent output
+    input_tokens: number;     // agent-reported, or estimated from the instruction
+    output_tokens: number;    // agent-reported, or estimated from the agent's final output
+    tokens_estimated?: boolean;  // true when the agent did not report token usage
     session_log: LogEntry[];
-    // Skill trigger tracking
+    error?: string;           // set when the trial crashed before grading (agent or provider error)
+    // Skill trigger tracking (only set when the agent reports structured output)
     skills_triggered?: SkillTriggerInfo[];  // List of triggered skills
     tools_used?: string[];                  // List of tools used
+    num_turns?: number;                     // Agent-reported API turns
+    cost_usd?: number;                      // Agent-reported cost
+    raw_output?: string;                    // Raw CLI output (truncated by the agent)
+}
+
+/** Number of trials in which a tool was used */
+export interface ToolUsage {
+    name: string;
+    trials: number;
+}
+
+export interface ConfidenceInterval {
+    lower: number;
+    upper: number;
+}
+
+/** 95% confidence intervals for a report's headline metrics */
+export interface ConfidenceIntervals {
+    level: number;                  // always 0.95
+    pass_rate: ConfidenceInterval;  // Wilson for 0/1 rewards, bootstrap otherwise
+    pass_at_k: ConfidenceInterval;  // from the Wilson interval on the per-trial success rate
+    pass_pow_k: ConfidenceInterval;
+}
+
+/** Token and cost totals across a report's trials */
+export interface UsageSummary {
+    input_tokens: number;
+    output_tokens: number;
+    tokens_estimated: boolean;  // true if any trial's tokens were estimated
+    cost_usd?: number;          // sum of agent-reported cost (only when some trial reported it)
+    cost_trials?: number;       // number of trials that reported cost
+}
+
+/** How well the agent picked the skill under test over distractor skills */
+export interface SkillSelection {
+    precision: number;      // target triggers / all injected-skill triggers
+    recall: number;         // target triggers / target skills expected
+    accuracy: number;       // fraction of trials that triggered every target and no distractor
+    trials: number;         // instrumented trials the metrics are computed over
+    triggered: Array<ToolUsage & { distractor: boolean }>;  // injected skills by number of trials triggering them
 }
 
 /** Skill trigger information during agent execution */
@@ -63,15 +125,83 @@ export interface AgentResult {
     num_turns?: number;                     // Number of API interaction turns
     duration_api_ms?: number;               // API duration in milliseconds
     cost_usd?: number;                      // Cost in USD
+    input_tokens?: number;                  // Agent-reported input tokens (incl. cached)
+    output_tokens?: number;                 // Agent-reported output tokens
+}
+
+/** Pass rate of a single named check across all trials */
+export interface CheckSummary {
+    name: string;
+    passed: number;
+    total: number;
+    pass_rate: number;
 }
 
 export interface EvalReport {
     task: string;
+    run_id?: string;          // manifest of the invocation that produced this report (runs/<run_id>.json)
+    agent?: string;           // agent that ran the trials
+    model?: string;           // model passed to the agent, when one was set (matrix runs)
     pass_rate: number;
     pass_at_k: number;        // probability of ≥1 success in k trials
     pass_pow_k: number;       // probability of all k trials succeeding
+    pass_threshold?: number;  // minimum reward for a trial to count as a success
+    confidence?: ConfidenceIntervals;
+    adaptive?: {              // set when the trial count was chosen adaptively
+        threshold: number;
+        min_trials: number;
+        stopped: 'above_threshold' | 'below_threshold' | 'max_trials';
+    };
     trials: TrialResult[];
     skills_used: string[];
+    checks?: CheckSummary[];  // per-check pass rate across trials
+    skill_trigger_rate?: number;  // fraction of instrumented trials that triggered a skill
+    tool_usage?: ToolUsage[];     // tools by number of trials using them, most-used first
+    usage?: UsageSummary;         // token and cost totals
+    distractor_skills?: string[]; // other skills injected alongside skills_used
+    skill_selection?: SkillSelection;  // only when distractors were injected
+    baseline?: boolean;       // true for the no-skill control run of --baseline
+}
+
+/** A task whose evaluation threw before it produced a report */
+export interface FailedEval {
+    task: string;
+    agent: string;
+    model?: string;
+    error: string;            // message of the error the evaluation failed with
+}
+
+/** One task of a run, as recorded in its manifest */
+export interface RunManifestTask {
+    task: string;
+    agent: string;
+    model?: string;
+    provider: string;
+    trials: number;
+    status: 'completed' | 'failed';
+    pass_rate?: number;
+}
+
+/** Everything needed to tell which invocation, code and config produced a set of reports */
+export interface RunManifest {
+    run_id: string;
+    started_at: string;
+    finished_at?: string;     // unset while the run is in progress (or if it crashed)
+    skillgrade_version: string;
+    options: Record<string, unknown>;   // CLI options the run was started with
+    eval_yaml_hash?: string;  // sha256 of eval.yaml
+    skills: string[];         // skill directory names under test
+    skill_hash?: string;      // sha256 over the skill directories' files
+    git_commit?: string;
+    git_dirty?: boolean;      // uncommitted changes in the work tree
+    tasks: RunManifestTask[];
+}
+
+/** Paired with/without-skill reports from a --baseline run */
+export interface BaselineReport {
+    with_skill: EvalReport;
+    without_skill: EvalReport;
+    normalized_gain: number;  // (p_with - p_without) / (1 - p_without)
 }
 
 export abstract class BaseAgent {
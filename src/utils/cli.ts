@@ -4,6 +4,7 @@
  * Uses ANSI codes that work on both light and dark terminals.
  * Respects NO_COLOR env var (https://no-color.org/).
  */
+import { GraderCheck } from '../types';
 
 const NO_COLOR = !!process.env.NO_COLOR;
 
@@ -38,6 +39,19 @@ export function kv(label: string, value: string, indent: number = 2) {
     console.log(`${pad}${fmt.dim(labelPad)}${value}`);
 }
 
+/** Format a token count, prefixed with ~ when estimated (e.g. "~1.2k") */
+export function formatTokens(n: number, estimated: boolean = false): string {
+    const value = n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M`
+        : n >= 1000 ? `${(n / 1000).toFixed(1)}k`
+            : `${n}`;
+    return `${estimated ? '~' : ''}${value}`;
+}
+
+/** Format a USD cost with enough precision for cheap runs */
+export function formatCost(usd: number): string {
+    return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
 /** Print a trial result row */
 export function trialRow(trialId: number, total: number, reward: number, duration: string, commands: number, graders: { type: string; score: number }[]) {
     const pad = '  ';
@@ -54,8 +68,43 @@ export function trialRow(trialId: number, total: number, reward: number, duratio
     console.log(`${pad}  ${fmt.dim(trialLabel)} ${status}  ${fmt.bold(rewardStr)}  ${fmt.dim(duration.padEnd(7))} ${fmt.dim(commands + ' cmds')}  ${graderStr}`);
 }
 
+/** Skill and tool usage shown under the results summary */
+export interface UsageStats {
+    skillTriggerRate?: number;
+    tools?: { name: string; trials: number }[];
+    selection?: { precision: number; recall: number; accuracy: number };
+    tokens?: { input_tokens: number; output_tokens: number; tokens_estimated: boolean; cost_usd?: number };
+}
+
+/** 95% confidence intervals shown next to the summary metrics */
+export interface SummaryIntervals {
+    pass_rate: { lower: number; upper: number };
+    pass_at_k: { lower: number; upper: number };
+    pass_pow_k: { lower: number; upper: number };
+}
+
+/** Trials meeting the pass criterion, shown under pass^k */
+export interface PassCriterion {
+    passed: number;
+    threshold: number;  // minimum reward for a trial to pass
+}
+
+/** Format an interval as "[23.1–88.2%]" */
+export function formatInterval(ci: { lower: number; upper: number }): string {
+    return `[${(ci.lower * 100).toFixed(1)}–${(ci.upper * 100).toFixed(1)}%]`;
+}
+
 /** Print the results summary block */
-export function resultsSummary(passRate: number, passAtK: number, passPowK: number, trials: number, preset?: string) {
+export function resultsSummary(
+    passRate: number,
+    passAtK: number,
+    passPowK: number,
+    trials: number,
+    preset?: string,
+    usage?: UsageStats,
+    intervals?: SummaryIntervals,
+    criterion?: PassCriterion
+) {
     const presetLabel = preset === 'smoke' ? ' (smoke test)'
         : preset === 'reliable' ? ' (reliable)'
             : preset === 'regression' ? ' (regression)'
@@ -65,19 +114,94 @@ export function resultsSummary(passRate: number, passAtK: number, passPowK: numb
 
     const fmtPct = (v: number) => `${(v * 100).toFixed(1)}%`.padStart(7);
     const marker = (key: string) => preset === key ? fmt.cyan(' ◂') : '';
+    const ci = (key: keyof SummaryIntervals) => intervals ? `  ${fmt.dim(formatInterval(intervals[key]))}` : '';
+
+    console.log(`    Pass Rate  ${fmt.bold(fmtPct(passRate))}${ci('pass_rate')}${marker('reliable')}`);
+    console.log(`    pass@${trials}     ${fmtPct(passAtK)}${ci('pass_at_k')}${marker('smoke')}`);
+    console.log(`    pass^${trials}     ${fmtPct(passPowK)}${ci('pass_pow_k')}${marker('regression')}`);
+    if (criterion) {
+        const count = `${criterion.passed}/${trials}`.padStart(7);
+        const colored = criterion.passed === trials ? fmt.green(count) : criterion.passed === 0 ? fmt.red(count) : count;
+        console.log(`    Passed     ${colored}  ${fmt.dim(`reward ≥ ${criterion.threshold.toFixed(2)}`)}`);
+    }
+    if (usage?.skillTriggerRate !== undefined) {
+        console.log(`    Skill used ${fmtPct(usage.skillTriggerRate)}`);
+    }
+    if (usage?.tools && usage.tools.length > 0) {
+        const top = usage.tools.slice(0, 5).map(t => `${t.name} ${fmt.dim(`${t.trials}/${trials}`)}`).join('  ');
+        console.log(`    Tools      ${top}`);
+    }
+    if (usage?.tokens) {
+        const t = usage.tokens;
+        const total = formatTokens(t.input_tokens + t.output_tokens, t.tokens_estimated);
+        const cost = t.cost_usd != null ? `  ${formatCost(t.cost_usd)}` : '';
+        console.log(`    Tokens     ${total}${cost}  ${fmt.dim(`in ${formatTokens(t.input_tokens)}  out ${formatTokens(t.output_tokens)}`)}`);
+    }
+    if (usage?.selection) {
+        const { precision, recall, accuracy } = usage.selection;
+        console.log(`    Selection  ${fmtPct(accuracy)}  ${fmt.dim(`precision ${fmtPct(precision).trim()}  recall ${fmtPct(recall).trim()}`)}`);
+    }
+    console.log();
+}
+
+/** Print the with/without-skill comparison from a --baseline run */
+export function baselineSummary(withSkill: number, withoutSkill: number, normalizedGain: number) {
+    header('Baseline');
+
+    const fmtPct = (v: number) => `${(v * 100).toFixed(1)}%`.padStart(7);
+    const gainStr = `${normalizedGain >= 0 ? '+' : ''}${normalizedGain.toFixed(2)}`.padStart(7);
+    const gainColor = normalizedGain > 0 ? fmt.green(gainStr) : normalizedGain < 0 ? fmt.red(gainStr) : gainStr;
+
+    console.log(`    With skill     ${fmt.bold(fmtPct(withSkill))}`);
+    console.log(`    Without skill  ${fmtPct(withoutSkill)}`);
+    console.log(`    Norm. gain     ${gainColor}`);
+    console.log();
+}
+
+/** One agent/model combination's results for a task */
+export interface LeaderboardRow {
+    label: string;          // "agent" or "agent model"
+    passRate?: number;
+    passAtK?: number;
+    trials?: number;
+    avgDurationMs?: number;
+    costUsd?: number;
+    failed?: boolean;       // the evaluation crashed before producing a report
+}
 
-    console.log(`    Pass Rate  ${fmt.bold(fmtPct(passRate))}${marker('reliable')}`);
-    console.log(`    pass@${trials}     ${fmtPct(passAtK)}${marker('smoke')}`);
-    console.log(`    pass^${trials}     ${fmtPct(passPowK)}${marker('regression')}`);
+/** Print a matrix run's combinations for one task, best pass rate first */
+export function leaderboard(task: string, rows: LeaderboardRow[]) {
+    header(`Leaderboard: ${task}`);
+
+    const ranked = [...rows].sort((a, b) =>
+        Number(!!a.failed) - Number(!!b.failed)
+        || (b.passRate ?? 0) - (a.passRate ?? 0)
+        || (a.avgDurationMs ?? 0) - (b.avgDurationMs ?? 0));
+    const width = Math.max(5, ...rows.map(r => r.label.length));
+    const fmtPct = (v: number) => `${(v * 100).toFixed(1)}%`.padStart(9);
+
+    console.log(`    ${fmt.dim(`${'#'.padStart(2)}  ${'agent'.padEnd(width)}  ${'pass rate'.padStart(9)}  ${'pass@k'.padStart(9)}  ${'trials'.padStart(6)}  ${'avg time'.padStart(8)}  ${'cost'.padStart(8)}`)}`);
+    ranked.forEach((r, i) => {
+        const rank = String(i + 1).padStart(2);
+        if (r.failed) {
+            console.log(`    ${rank}  ${r.label.padEnd(width)}  ${fmt.red('failed'.padStart(9))}`);
+            return;
+        }
+        const passRate = fmtPct(r.passRate ?? 0);
+        console.log(`    ${rank}  ${r.label.padEnd(width)}  ${i === 0 ? fmt.bold(passRate) : passRate}  ${fmtPct(r.passAtK ?? 0)}  ${String(r.trials ?? 0).padStart(6)}  ${`${((r.avgDurationMs ?? 0) / 1000).toFixed(1)}s`.padStart(8)}  ${(r.costUsd != null ? formatCost(r.costUsd) : '—').padStart(8)}`);
+    });
     console.log();
 }
 
-/** Print a validation result */
-export function validationResult(passed: boolean, reward: number, graders: { type: string; score: number; details: string }[]) {
+/** Print a validation result: each grader's score, then one line per check it ran */
+export function validationResult(passed: boolean, reward: number, graders: { type: string; score: number; details: string; checks?: GraderCheck[] }[]) {
     for (const g of graders) {
         const scoreStr = g.score.toFixed(2);
         const color = g.score >= 0.5 ? fmt.green(scoreStr) : fmt.red(scoreStr);
         console.log(`    ${fmt.dim(g.type.padEnd(16))} ${color}  ${fmt.dim(g.details.substring(0, 60))}`);
+        for (const c of g.checks || []) {
+            console.log(`      ${c.passed ? fmt.green('✓') : fmt.red('✗')} ${c.name}${c.message ? `  ${fmt.dim(c.message.substring(0, 60))}` : ''}`);
+        }
     }
     console.log();
     if (passed) {
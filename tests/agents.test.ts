@@ -1,14 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GeminiAgent } from '../src/agents/gemini';
-import { ClaudeAgent } from '../src/agents/claude';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeminiAgent, parseGeminiOutput } from '../src/agents/gemini';
+import { ClaudeAgent, parseClaudeStreamJson } from '../src/agents/claude';
+import { parseCodexJsonOutput } from '../src/agents/codex';
 import { CommandResult } from '../src/types';
 
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+
 beforeEach(() => {
   vi.spyOn(console, 'error').mockImplementation(() => {});
 });
 
 describe('GeminiAgent', () => {
-  it('writes instruction via base64 and runs gemini CLI', async () => {
+  it('writes instruction via base64 and runs gemini CLI with structured output', async () => {
     const agent = new GeminiAgent();
     const commands: string[] = [];
     const mockRunCommand = vi.fn().mockImplementation(async (cmd: string): Promise<CommandResult> => {
@@ -24,18 +29,19 @@ describe('GeminiAgent', () => {
     expect(commands[1]).toContain('gemini');
     expect(commands[1]).toContain('-y');
     expect(commands[1]).toContain('--sandbox=none');
-    expect(result).toContain('output');
+    expect(commands[1]).toContain('--output-format stream-json');
+    expect(result.output).toContain('output');
   });
 
-  it('returns combined stdout and stderr', async () => {
+  it('returns combined stdout and stderr when output is not structured', async () => {
     const agent = new GeminiAgent();
     const mockRunCommand = vi.fn()
       .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
       .mockResolvedValueOnce({ stdout: 'out', stderr: 'err', exitCode: 0 });
 
     const result = await agent.run('Test', '/workspace', mockRunCommand);
-    expect(result).toContain('out');
-    expect(result).toContain('err');
+    expect(result.output).toContain('out');
+    expect(result.output).toContain('err');
   });
 
   it('handles non-zero exit code without throwing', async () => {
@@ -45,8 +51,23 @@ describe('GeminiAgent', () => {
       .mockResolvedValueOnce({ stdout: 'partial', stderr: 'error', exitCode: 1 });
 
     const result = await agent.run('Test', '/workspace', mockRunCommand);
-    expect(result).toContain('partial');
-    expect(result).toContain('error');
+    expect(mockRunCommand).toHaveBeenCalledTimes(2);
+    expect(result.output).toContain('partial');
+    expect(result.output).toContain('error');
+  });
+
+  it('retries as plain text when the CLI does not support --output-format', async () => {
+    const agent = new GeminiAgent();
+    const mockRunCommand = vi.fn()
+      .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
+      .mockResolvedValueOnce({ stdout: '', stderr: 'Unknown arguments: output-format, outputFormat', exitCode: 1 })
+      .mockResolvedValueOnce({ stdout: 'plain text answer', stderr: '', exitCode: 0 });
+
+    const result = await agent.run('Test', '/workspace', mockRunCommand);
+    expect(mockRunCommand).toHaveBeenCalledTimes(3);
+    expect(mockRunCommand.mock.calls[2][0]).not.toContain('--output-format');
+    expect(result.output).toContain('plain text answer');
+    expect(result.skills_triggered).toEqual([]);
   });
 
   it('correctly base64 encodes the instruction', async () => {
@@ -65,8 +86,69 @@ describe('GeminiAgent', () => {
   });
 });
 
+describe('parseGeminiOutput', () => {
+  describe('stream-json', () => {
+    const result = parseGeminiOutput(readFixture('gemini-stream.jsonl'));
+
+    it('joins assistant message deltas into the output', () => {
+      expect(result.output).toBe('Following the superlint workflow.\nAll lint errors in app.js are fixed.');
+    });
+
+    it('records tool names', () => {
+      expect(result.tools_used).toEqual(['read_file', 'run_shell_command']);
+    });
+
+    it('detects skill file reads under .agents/skills', () => {
+      expect(result.skills_triggered).toHaveLength(1);
+      expect(result.skills_triggered[0]).toMatchObject({
+        name: 'superlint',
+        source: 'file_read',
+        timestamp: '2026-03-02T10:00:02.000Z',
+      });
+    });
+
+    it('reads token usage from the result event and counts model turns', () => {
+      expect(result.input_tokens).toBe(8700);
+      expect(result.output_tokens).toBe(420);
+      expect(result.num_turns).toBe(4);
+    });
+
+    it('detects activate_skill calls as tool_use triggers', () => {
+      const parsed = parseGeminiOutput(
+        '{"type":"tool_use","tool_name":"activate_skill","tool_id":"t1","parameters":{"name":"superlint"}}'
+      );
+      expect(parsed.skills_triggered.map(s => [s.name, s.source])).toEqual([['superlint', 'tool_use']]);
+    });
+  });
+
+  describe('json', () => {
+    const result = parseGeminiOutput(readFixture('gemini-output.txt'));
+
+    it('uses the response as output', () => {
+      expect(result.output).toBe('All lint errors in app.js are fixed.');
+    });
+
+    it('records tool names from stats', () => {
+      expect(result.tools_used).toEqual(['read_file', 'run_shell_command']);
+    });
+
+    it('sums token usage and requests across models', () => {
+      expect(result.input_tokens).toBe(8700);
+      expect(result.output_tokens).toBe(420);
+      expect(result.num_turns).toBe(5);
+      expect(result.duration_api_ms).toBe(8500);
+    });
+  });
+
+  it('returns empty output for plain text', () => {
+    const parsed = parseGeminiOutput('I fixed the file.');
+    expect(parsed.output).toBe('');
+    expect(parsed.tools_used).toEqual([]);
+  });
+});
+
 describe('ClaudeAgent', () => {
-  it('writes instruction via base64 and runs claude CLI', async () => {
+  it('writes instruction via base64 and runs claude CLI with stream-json output', async () => {
     const agent = new ClaudeAgent();
     const commands: string[] = [];
     const mockRunCommand = vi.fn().mockImplementation(async (cmd: string): Promise<CommandResult> => {
@@ -82,18 +164,30 @@ describe('ClaudeAgent', () => {
     expect(commands[1]).toContain('claude');
     expect(commands[1]).toContain('-p');
     expect(commands[1]).toContain('--dangerously-skip-permissions');
-    expect(result).toContain('output');
+    expect(commands[1]).toContain('--output-format stream-json');
+    expect(commands[1]).toContain('--verbose');
+    expect(result.output).toContain('output');
   });
 
-  it('returns combined stdout and stderr', async () => {
+  it('passes the model to the claude CLI', async () => {
+    const agent = new ClaudeAgent('claude-sonnet-4-5');
+    const mockRunCommand = vi.fn().mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 });
+
+    await agent.run('Test instruction', '/workspace', mockRunCommand);
+
+    expect(mockRunCommand.mock.calls[1][0]).toContain('--model claude-sonnet-4-5');
+  });
+
+  it('falls back to combined stdout and stderr when output is not stream-json', async () => {
     const agent = new ClaudeAgent();
     const mockRunCommand = vi.fn()
       .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
       .mockResolvedValueOnce({ stdout: 'claude-out', stderr: 'claude-err', exitCode: 0 });
 
     const result = await agent.run('Test', '/workspace', mockRunCommand);
-    expect(result).toContain('claude-out');
-    expect(result).toContain('claude-err');
+    expect(result.output).toContain('claude-out');
+    expect(result.output).toContain('claude-err');
+    expect(result.skills_triggered).toEqual([]);
   });
 
   it('handles non-zero exit code without throwing', async () => {
@@ -103,7 +197,7 @@ describe('ClaudeAgent', () => {
       .mockResolvedValueOnce({ stdout: '', stderr: 'failed', exitCode: 1 });
 
     const result = await agent.run('Test', '/workspace', mockRunCommand);
-    expect(result).toContain('failed');
+    expect(result.output).toContain('failed');
   });
 
   it('correctly base64 encodes the instruction', async () => {
@@ -120,4 +214,76 @@ describe('ClaudeAgent', () => {
     const expectedB64 = Buffer.from(instruction).toString('base64');
     expect(capturedCmd).toContain(expectedB64);
   });
+
+  it('returns the parsed stream-json result with raw output attached', async () => {
+    const agent = new ClaudeAgent();
+    const stream = readFixture('claude-stream.jsonl');
+    const mockRunCommand = vi.fn()
+      .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
+      .mockResolvedValueOnce({ stdout: stream, stderr: '', exitCode: 0 });
+
+    const result = await agent.run('Test', '/workspace', mockRunCommand);
+    expect(result.output).toBe('Fixed all lint violations in app.js.');
+    expect(result.raw_output).toBe(stream);
+  });
+});
+
+describe('parseClaudeStreamJson', () => {
+  const result = parseClaudeStreamJson(readFixture('claude-stream.jsonl'));
+
+  it('uses the final result text as output', () => {
+    expect(result.output).toBe('Fixed all lint violations in app.js.');
+  });
+
+  it('records every tool used', () => {
+    expect(result.tools_used).toEqual(['Skill', 'Read', 'Bash']);
+  });
+
+  it('detects skill triggers from the Skill tool, SKILL.md reads and Bash commands', () => {
+    expect(result.skills_triggered.map(s => [s.name, s.source])).toEqual([
+      ['superlint', 'tool_use'],
+      ['superlint', 'file_read'],
+    ]);
+    expect(result.skills_triggered[1].details).toContain('.claude/skills/superlint/SKILL.md');
+  });
+
+  it('reads turns, cost and token usage from the result event', () => {
+    expect(result.num_turns).toBe(5);
+    expect(result.cost_usd).toBe(0.0423);
+    expect(result.duration_api_ms).toBe(15400);
+    expect(result.input_tokens).toBe(120 + 3000 + 5480);
+    expect(result.output_tokens).toBe(160);
+  });
+
+  it('falls back to assistant text when there is no result event', () => {
+    const partial = parseClaudeStreamJson([
+      '{"type":"assistant","message":{"content":[{"type":"text","text":"partial work"}]}}',
+      'not json',
+    ].join('\n'));
+
+    expect(partial.output).toBe('partial work');
+    expect(partial.num_turns).toBeUndefined();
+    expect(partial.input_tokens).toBeUndefined();
+  });
+});
+
+describe('parseCodexJsonOutput', () => {
+  it('sums token usage across turns', () => {
+    const result = parseCodexJsonOutput([
+      '{"type":"item.completed","item":{"type":"agent_message","text":"Done."}}',
+      '{"type":"turn.completed","usage":{"input_tokens":1200,"cached_input_tokens":800,"output_tokens":90}}',
+      '{"type":"turn.completed","usage":{"input_tokens":300,"output_tokens":10}}',
+    ].join('\n'));
+
+    expect(result.output).toBe('Done.');
+    expect(result.num_turns).toBe(2);
+    expect(result.input_tokens).toBe(1500);
+    expect(result.output_tokens).toBe(100);
+  });
+
+  it('leaves token usage unset when no turn completed', () => {
+    const result = parseCodexJsonOutput('{"type":"item.completed","item":{"type":"agent_message","text":"partial"}}');
+    expect(result.input_tokens).toBeUndefined();
+    expect(result.output_tokens).toBeUndefined();
+  });
 });
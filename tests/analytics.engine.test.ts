@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { calculateNormalizedGain, AnalyticsEngine } from '../src/analytics/engine';
-import { EvalReport } from '../src/types';
+import {
+  calculateNormalizedGain, summarizeChecks, calculateSkillTriggerRate, summarizeToolUsage, calculateSkillSelection,
+  summarizeUsage, calculateConfidenceIntervals, AnalyticsEngine,
+} from '../src/analytics/engine';
+import { EvalReport, TrialResult } from '../src/types';
 
 describe('calculateNormalizedGain', () => {
   it('returns 1.0 when pWith is 1.0 and pWithout < 1.0', () => {
@@ -69,6 +72,21 @@ describe('AnalyticsEngine.aggregate', () => {
     expect(stats.map(s => s.task).sort()).toEqual(['task1', 'task2']);
   });
 
+  it('aggregates each agent and model of a matrix run apart', () => {
+    const engine = new AnalyticsEngine();
+    const reports = [
+      { ...makeReport('task1', 1.0, ['skill1']), agent: 'claude' },
+      { ...makeReport('task1', 0.5, []), agent: 'claude' },
+      { ...makeReport('task1', 0.2, ['skill1']), agent: 'gemini', model: 'gemini-2.5-pro' },
+    ];
+
+    const stats = engine.aggregate(reports);
+    expect(stats.map(s => [s.task, s.agent, s.model, s.passRateWithSkill, s.reportsNoSkill])).toEqual([
+      ['task1', 'claude', undefined, 1.0, 1],
+      ['task1', 'gemini', 'gemini-2.5-pro', 0.2, 0],
+    ]);
+  });
+
   it('calculates correct pass rates with and without skill', () => {
     const engine = new AnalyticsEngine();
     const reports = [
@@ -116,3 +134,164 @@ describe('AnalyticsEngine.aggregate', () => {
     expect(stats[0].passRateWithSkill).toBe(0);
   });
 });
+
+describe('summarizeChecks', () => {
+  function makeTrial(id: number, checks: { name: string; passed: boolean }[]): TrialResult {
+    return {
+      trial_id: id,
+      reward: 1,
+      grader_results: [{
+        grader_type: 'deterministic', score: 1, weight: 1, details: '',
+        checks: checks.map(c => ({ ...c, message: '' })),
+      }],
+      duration_ms: 0,
+      n_commands: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      session_log: [],
+    };
+  }
+
+  it('computes per-check pass rates across trials', () => {
+    const summary = summarizeChecks([
+      makeTrial(1, [{ name: 'a', passed: true }, { name: 'b', passed: false }]),
+      makeTrial(2, [{ name: 'a', passed: true }, { name: 'b', passed: true }]),
+    ]);
+
+    expect(summary).toEqual([
+      { name: 'a', passed: 2, total: 2, pass_rate: 1 },
+      { name: 'b', passed: 1, total: 2, pass_rate: 0.5 },
+    ]);
+  });
+
+  it('returns an empty list when no grader reports checks', () => {
+    expect(summarizeChecks([makeTrial(1, [])])).toEqual([]);
+  });
+});
+
+describe('skill and tool usage', () => {
+  function makeTrial(skills?: string[], tools?: string[]): TrialResult {
+    return {
+      trial_id: 1, reward: 1, grader_results: [], duration_ms: 0, n_commands: 0,
+      input_tokens: 0, output_tokens: 0, session_log: [],
+      skills_triggered: skills?.map(name => ({ name, source: 'tool_use' as const })),
+      tools_used: tools,
+    };
+  }
+
+  it('computes the trigger rate over instrumented trials only', () => {
+    const rate = calculateSkillTriggerRate([makeTrial(['a']), makeTrial([]), makeTrial(undefined)]);
+    expect(rate).toBe(0.5);
+  });
+
+  it('returns undefined when no trial is instrumented', () => {
+    expect(calculateSkillTriggerRate([makeTrial(undefined)])).toBeUndefined();
+  });
+
+  it('ranks tools by the number of trials using them', () => {
+    const usage = summarizeToolUsage([
+      makeTrial([], ['Read', 'Bash', 'Bash']),
+      makeTrial([], ['Bash']),
+    ]);
+    expect(usage).toEqual([{ name: 'Bash', trials: 2 }, { name: 'Read', trials: 1 }]);
+  });
+});
+
+describe('calculateSkillSelection', () => {
+  function makeTrial(skills?: Array<[string, 'tool_use' | 'file_read' | 'init_list']>): TrialResult {
+    return {
+      trial_id: 1, reward: 1, grader_results: [], duration_ms: 0, n_commands: 0,
+      input_tokens: 0, output_tokens: 0, session_log: [],
+      skills_triggered: skills?.map(([name, source]) => ({ name, source })),
+    };
+  }
+
+  it('scores precision, recall and accuracy against distractors', () => {
+    const selection = calculateSkillSelection([
+      makeTrial([['target', 'tool_use']]),
+      makeTrial([['target', 'file_read'], ['decoy', 'tool_use']]),
+      makeTrial([['decoy', 'file_read']]),
+      makeTrial([]),
+    ], ['target'], ['decoy']);
+
+    expect(selection).toEqual({
+      precision: 0.5,
+      recall: 0.5,
+      accuracy: 0.25,
+      trials: 4,
+      triggered: [
+        { name: 'target', trials: 2, distractor: false },
+        { name: 'decoy', trials: 2, distractor: true },
+      ],
+    });
+  });
+
+  it('ignores init_list triggers and skills that were not injected', () => {
+    const selection = calculateSkillSelection([
+      makeTrial([['decoy', 'init_list'], ['target', 'tool_use'], ['builtin', 'tool_use']]),
+    ], ['target'], ['decoy']);
+
+    expect(selection?.precision).toBe(1);
+    expect(selection?.accuracy).toBe(1);
+    expect(selection?.triggered).toEqual([{ name: 'target', trials: 1, distractor: false }]);
+  });
+
+  it('returns undefined without instrumented trials or targets', () => {
+    expect(calculateSkillSelection([makeTrial(undefined)], ['target'], ['decoy'])).toBeUndefined();
+    expect(calculateSkillSelection([makeTrial([])], [], ['decoy'])).toBeUndefined();
+  });
+});
+
+describe('summarizeUsage', () => {
+  function makeTrial(tokens: number, estimated?: boolean, cost?: number): TrialResult {
+    return {
+      trial_id: 1, reward: 1, grader_results: [], duration_ms: 0, n_commands: 0,
+      input_tokens: tokens, output_tokens: tokens, session_log: [],
+      tokens_estimated: estimated, cost_usd: cost,
+    };
+  }
+
+  it('sums tokens and agent-reported cost', () => {
+    expect(summarizeUsage([makeTrial(100, false, 0.1), makeTrial(50, false, 0.05), makeTrial(10, false)])).toEqual({
+      input_tokens: 160,
+      output_tokens: 160,
+      tokens_estimated: false,
+      cost_usd: expect.closeTo(0.15),
+      cost_trials: 2,
+    });
+  });
+
+  it('flags estimates, including trials from older reports without the flag', () => {
+    expect(summarizeUsage([makeTrial(100, false), makeTrial(10, true)]).tokens_estimated).toBe(true);
+    expect(summarizeUsage([makeTrial(100, undefined)]).tokens_estimated).toBe(true);
+    expect(summarizeUsage([makeTrial(100, false)]).cost_usd).toBeUndefined();
+  });
+});
+
+describe('calculateConfidenceIntervals', () => {
+  function makeTrials(rewards: number[]): TrialResult[] {
+    return rewards.map((reward, i) => ({
+      trial_id: i + 1, reward, grader_results: [], duration_ms: 0, n_commands: 0,
+      input_tokens: 0, output_tokens: 0, session_log: [],
+    }));
+  }
+
+  it('uses a Wilson interval for binary rewards and contains each point estimate', () => {
+    const trials = makeTrials([1, 1, 1, 0, 0]);
+    const ci = calculateConfidenceIntervals(trials, 1.0, Math.pow(0.6, 5));
+
+    expect(ci.level).toBe(0.95);
+    expect(ci.pass_rate.lower).toBeCloseTo(0.2307, 3);
+    expect(ci.pass_rate.upper).toBeCloseTo(0.8824, 3);
+    expect(ci.pass_at_k.upper).toBe(1.0);
+    expect(ci.pass_pow_k.lower).toBeLessThanOrEqual(Math.pow(0.6, 5));
+    expect(ci.pass_pow_k.upper).toBeGreaterThanOrEqual(Math.pow(0.6, 5));
+  });
+
+  it('bootstraps the mean for partial rewards', () => {
+    const ci = calculateConfidenceIntervals(makeTrials([0.5, 0.75, 1.0, 0.25]), 1.0, 0.0625);
+    expect(ci.pass_rate.lower).toBeGreaterThanOrEqual(0.25);
+    expect(ci.pass_rate.upper).toBeLessThanOrEqual(1.0);
+    expect(ci.pass_rate.lower).toBeLessThan(0.625);
+  });
+});
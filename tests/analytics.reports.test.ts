@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { loadReports, loadRuns, reportTime } from '../src/analytics/reports';
+
+describe('reportTime', () => {
+  it('parses the timestamp from a report file name', () => {
+    expect(reportTime('fix-lint_2026-01-02T03-04-05-678Z.json')).toBe('2026-01-02T03:04:05.678Z');
+    expect(reportTime('fix-lint_baseline_2026-01-02T03-04-05-678Z.json')).toBe('2026-01-02T03:04:05.678Z');
+    expect(reportTime('notes.json')).toBeUndefined();
+  });
+});
+
+describe('loadReports / loadRuns', () => {
+  let dir: string;
+
+  const report = (task: string, extra: object = {}) => ({ task, pass_rate: 1, trials: [], ...extra });
+
+  beforeEach(async () => {
+    dir = path.join(os.tmpdir(), `skillgrade-reports-test-${Date.now()}`);
+    await fsExtra.ensureDir(path.join(dir, 'results'));
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(dir); } catch {}
+  });
+
+  it('orders reports by save time across tasks, oldest first', async () => {
+    const results = path.join(dir, 'results');
+    await fsExtra.writeJSON(path.join(results, 'a_2026-01-02T00-00-00-000Z.json'), report('a', { run_id: 'r2' }));
+    await fsExtra.writeJSON(path.join(results, 'a_2026-01-01T00-00-00-000Z.json'), report('a', { run_id: 'r1' }));
+    await fsExtra.writeJSON(path.join(results, 'b_2026-01-02T00-00-01-000Z.json'), report('b', { run_id: 'r2' }));
+    await fsExtra.writeJSON(path.join(results, 'b_baseline_2026-01-01T00-00-01-000Z.json'), report('b', { run_id: 'r1', baseline: true }));
+    await fsExtra.writeJSON(path.join(results, 'b_2026-01-01T00-00-02-000Z.json'), report('b', { run_id: 'r1' }));
+
+    const reports = await loadReports(results);
+    expect(reports.map(r => r.file)).toEqual([
+      'a_2026-01-01T00-00-00-000Z.json',
+      'b_baseline_2026-01-01T00-00-01-000Z.json',
+      'b_2026-01-01T00-00-02-000Z.json',
+      'a_2026-01-02T00-00-00-000Z.json',
+      'b_2026-01-02T00-00-01-000Z.json',
+    ]);
+    expect(reports[0].time).toBe('2026-01-01T00:00:00.000Z');
+    expect((await loadReports(results, { baseline: false })).map(r => r.run_id)).toEqual(['r1', 'r1', 'r2', 'r2']);
+  });
+
+  it('skips files that are not reports', async () => {
+    const results = path.join(dir, 'results');
+    await fsExtra.writeFile(path.join(results, 'broken.json'), '{');
+    await fsExtra.writeJSON(path.join(results, 'checkpoint.json'), { trials: [] });
+    await fsExtra.writeFile(path.join(results, 'notes.txt'), 'x');
+    await fsExtra.writeJSON(path.join(results, 'x.json'), report('x'));
+
+    expect((await loadReports(results)).map(r => r.task)).toEqual(['x']);
+    expect(await loadReports(path.join(dir, 'missing'))).toEqual([]);
+  });
+
+  it('keys run manifests by run_id', async () => {
+    await fsExtra.outputJSON(path.join(dir, 'runs', 'r1.json'), { run_id: 'r1', tasks: [] });
+    await fsExtra.outputFile(path.join(dir, 'runs', 'broken.json'), '{');
+
+    const runs = await loadRuns(path.join(dir, 'runs'));
+    expect([...runs.keys()]).toEqual(['r1']);
+  });
+});
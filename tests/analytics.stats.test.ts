@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { fisherExactTest, wilsonInterval, bootstrapMeanInterval } from '../src/analytics/stats';
+
+describe('fisherExactTest', () => {
+  it('matches the classic tea-tasting table', () => {
+    expect(fisherExactTest(3, 4, 1, 4)).toBeCloseTo(0.4857, 4);
+  });
+
+  it('is symmetric in the two groups', () => {
+    expect(fisherExactTest(2, 10, 8, 10)).toBeCloseTo(fisherExactTest(8, 10, 2, 10), 10);
+  });
+
+  it('gives a tiny p-value for a complete reversal', () => {
+    expect(fisherExactTest(0, 10, 10, 10)).toBeCloseTo(2 / 184756, 10);
+  });
+
+  it('returns 1 for identical or degenerate tables', () => {
+    expect(fisherExactTest(3, 5, 3, 5)).toBeCloseTo(1, 10);
+    expect(fisherExactTest(5, 5, 5, 5)).toBe(1);
+    expect(fisherExactTest(0, 0, 3, 5)).toBe(1);
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('stays inside [0, 1] at the extremes', () => {
+    const all = wilsonInterval(5, 5);
+    expect(all.lower).toBeCloseTo(0.5655, 4);
+    expect(all.upper).toBe(1);
+    const none = wilsonInterval(0, 5);
+    expect(none.lower).toBe(0);
+    expect(none.upper).toBeCloseTo(0.4345, 4);
+  });
+
+  it('narrows as trials increase', () => {
+    const small = wilsonInterval(3, 5);
+    const large = wilsonInterval(18, 30);
+    expect(large.upper - large.lower).toBeLessThan(small.upper - small.lower);
+    expect(large.lower).toBeLessThan(0.6);
+    expect(large.upper).toBeGreaterThan(0.6);
+  });
+
+  it('returns the full range with no trials', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+});
+
+describe('bootstrapMeanInterval', () => {
+  it('brackets the mean and is reproducible', () => {
+    const rewards = [0.2, 0.5, 0.7, 0.9, 1.0, 0.4];
+    const ci = bootstrapMeanInterval(rewards);
+    const mean = rewards.reduce((a, b) => a + b, 0) / rewards.length;
+    expect(ci.lower).toBeLessThan(mean);
+    expect(ci.upper).toBeGreaterThan(mean);
+    expect(bootstrapMeanInterval(rewards)).toEqual(ci);
+  });
+
+  it('collapses to the value when every reward is identical', () => {
+    expect(bootstrapMeanInterval([0.5, 0.5, 0.5])).toEqual({ lower: 0.5, upper: 0.5 });
+  });
+});
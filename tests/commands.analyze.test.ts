@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { runAnalyze, formatTable, formatMarkdown } from '../src/commands/analyze';
+import { AggregateStats } from '../src/analytics/engine';
+
+function makeStats(overrides?: Partial<AggregateStats>): AggregateStats {
+  return {
+    task: 'fix-lint',
+    passRateWithSkill: 0.8,
+    passRateNoSkill: 0.4,
+    normalizedGain: 0.6667,
+    avgDurationMs: 12000,
+    avgCommands: 4,
+    reportsWithSkill: 1,
+    reportsNoSkill: 1,
+    ...overrides,
+  };
+}
+
+function makeReport(task: string, reward: number, skillsUsed: string[]) {
+  return {
+    task,
+    pass_rate: reward,
+    pass_at_k: reward,
+    pass_pow_k: reward,
+    trials: [{
+      trial_id: 1, reward, duration_ms: 2000, n_commands: 3,
+      input_tokens: 0, output_tokens: 0, grader_results: [], session_log: [],
+    }],
+    skills_used: skillsUsed,
+  };
+}
+
+describe('formatTable', () => {
+  it('renders a header and one row per task', () => {
+    const lines = formatTable([makeStats()]);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain('Norm. Gain');
+    expect(lines[1]).toContain('fix-lint');
+    expect(lines[1]).toContain('80.0%');
+    expect(lines[1]).toContain('40.0%');
+    expect(lines[1]).toContain('+0.67');
+    expect(lines[1]).toContain('12.0s');
+  });
+
+  it('shows a dash when one side of the comparison is missing', () => {
+    const lines = formatTable([makeStats({ reportsNoSkill: 0, passRateNoSkill: 0 })]);
+    expect(lines[1]).not.toContain('+0.67');
+    expect(lines[1]).toContain('—');
+  });
+});
+
+describe('formatMarkdown', () => {
+  it('renders a markdown table', () => {
+    const md = formatMarkdown([makeStats(), makeStats({ task: 'other', normalizedGain: -0.5 })]);
+    const lines = md.split('\n');
+    expect(lines[0]).toMatch(/^\| Task \| With Skill/);
+    expect(lines[1]).toMatch(/^\|-+\|/);
+    expect(lines[2]).toContain('| fix-lint |');
+    expect(lines[3]).toContain('-0.50');
+  });
+});
+
+describe('runAnalyze', () => {
+  let outputDir: string;
+  let resultsDir: string;
+
+  beforeEach(async () => {
+    outputDir = path.join(os.tmpdir(), `skillgrade-analyze-test-${Date.now()}`);
+    resultsDir = path.join(outputDir, 'my-skill', 'results');
+    await fsExtra.ensureDir(resultsDir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(outputDir); } catch {}
+    vi.restoreAllMocks();
+  });
+
+  it('prints JSON stats aggregated from saved reports', async () => {
+    await fsExtra.writeJSON(path.join(resultsDir, 'a_1.json'), makeReport('a', 1.0, ['my-skill']));
+    await fsExtra.writeJSON(path.join(resultsDir, 'a_baseline_1.json'), makeReport('a', 0.5, []));
+    await fsExtra.writeFile(path.join(resultsDir, 'bad.json'), 'not json');
+
+    const logSpy = vi.spyOn(console, 'log');
+    await runAnalyze('/projects/my-skill', 'json', outputDir);
+
+    const stats = JSON.parse(String(logSpy.mock.calls[0][0]));
+    expect(stats).toHaveLength(1);
+    expect(stats[0].task).toBe('a');
+    expect(stats[0].passRateWithSkill).toBe(1.0);
+    expect(stats[0].passRateNoSkill).toBe(0.5);
+    expect(stats[0].normalizedGain).toBe(1.0);
+  });
+
+  it('prints a message when there are no reports', async () => {
+    const logSpy = vi.spyOn(console, 'log');
+    await runAnalyze('/projects/missing-skill', 'table', outputDir);
+
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('No reports found'));
+  });
+});
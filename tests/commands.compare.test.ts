@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { runCompare, compareReports, loadRun, formatMarkdown } from '../src/commands/compare';
+import { EvalReport } from '../src/types';
+
+function makeReport(task: string, rewards: number[], checkPassed: boolean[] = []): EvalReport {
+  return {
+    task,
+    pass_rate: rewards.reduce((a, b) => a + b, 0) / rewards.length,
+    pass_at_k: 0,
+    pass_pow_k: 0,
+    trials: rewards.map((reward, i) => ({
+      trial_id: i + 1, reward, duration_ms: 1000 * (i + 1), n_commands: 1,
+      input_tokens: 100, output_tokens: 50, tokens_estimated: false, session_log: [],
+      grader_results: [{
+        grader_type: 'deterministic', score: reward, weight: 1, details: '',
+        checks: checkPassed.length ? [{ name: 'file-created', passed: checkPassed[i], message: '' }] : undefined,
+      }],
+    })),
+    skills_used: [],
+  };
+}
+
+describe('compareReports', () => {
+  it('computes pass-rate, grader, check and duration deltas with significance', () => {
+    const a = makeReport('fix-lint', Array(10).fill(0), Array(10).fill(false));
+    const b = makeReport('fix-lint', Array(10).fill(1), Array(10).fill(true));
+
+    const result = compareReports(a, b);
+
+    expect(result.passRate).toEqual({ a: 0, b: 1, delta: 1 });
+    expect(result.successes).toMatchObject({ passedA: 0, totalA: 10, passedB: 10, totalB: 10, delta: 1, significant: true });
+    expect(result.graders).toEqual([{ name: 'deterministic', a: 0, b: 1, delta: 1 }]);
+    expect(result.checks[0]).toMatchObject({ name: 'file-created', passedA: 0, passedB: 10, significant: true });
+    expect(result.durationMs.delta).toBe(0);
+    expect(result.tokens).toEqual({ a: 150, b: 150, delta: 0, estimated: false });
+  });
+
+  it('does not flag small differences as significant', () => {
+    const result = compareReports(makeReport('t', [1, 1, 0, 0, 0]), makeReport('t', [1, 1, 1, 0, 0]));
+    expect(result.successes.delta).toBeCloseTo(0.2);
+    expect(result.successes.significant).toBe(false);
+    expect(result.successes.pValue).toBeCloseTo(1, 10);
+  });
+});
+
+describe('formatMarkdown', () => {
+  it('renders one row per task', () => {
+    const md = formatMarkdown({
+      tasks: [compareReports(makeReport('t', [0, 0]), makeReport('t', [1, 1]))],
+      onlyInA: [],
+      onlyInB: [],
+    });
+    const lines = md.split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toContain('| t | 0.0% | 100.0% | +100.0% | 0/2 → 2/2 |');
+  });
+});
+
+describe('loadRun / runCompare', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = path.join(os.tmpdir(), `skillgrade-compare-test-${Date.now()}`);
+    await fsExtra.ensureDir(path.join(dir, 'a'));
+    await fsExtra.ensureDir(path.join(dir, 'b'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(dir); } catch {}
+    vi.restoreAllMocks();
+  });
+
+  it('uses the newest non-baseline report per task in a directory', async () => {
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x_2026-01-01T00-00-00.json'), makeReport('x', [0]));
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x_2026-01-02T00-00-00.json'), makeReport('x', [1]));
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x_baseline_2026-01-03T00-00-00.json'), { ...makeReport('x', [0.5]), baseline: true });
+
+    const run = await loadRun(path.join(dir, 'a'));
+    expect(run.get('x')?.pass_rate).toBe(1);
+  });
+
+  it('prints JSON with tasks matched across runs', async () => {
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x.json'), makeReport('x', [0, 1]));
+    await fsExtra.writeJSON(path.join(dir, 'a', 'only-a.json'), makeReport('only-a', [1]));
+    await fsExtra.writeJSON(path.join(dir, 'b', 'x.json'), makeReport('x', [1, 1]));
+
+    const logSpy = vi.spyOn(console, 'log');
+    await runCompare(path.join(dir, 'a'), path.join(dir, 'b'), 'json');
+
+    const result = JSON.parse(String(logSpy.mock.calls[0][0]));
+    expect(result.tasks.map((t: any) => t.task)).toEqual(['x']);
+    expect(result.onlyInA).toEqual(['only-a']);
+    expect(result.onlyInB).toEqual([]);
+  });
+
+  it('keeps each agent of a matrix results directory apart', async () => {
+    const agent = (a: string, rewards: number[]) => ({ ...makeReport('x', rewards), agent: a });
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x_2026-01-01T00-00-00-000Z.json'), agent('claude', [0, 0]));
+    await fsExtra.writeJSON(path.join(dir, 'a', 'x_2026-01-01T00-00-01-000Z.json'), agent('gemini', [1, 1]));
+    await fsExtra.writeJSON(path.join(dir, 'b', 'x_2026-01-02T00-00-00-000Z.json'), agent('claude', [1, 1]));
+    await fsExtra.writeJSON(path.join(dir, 'b', 'x_2026-01-02T00-00-01-000Z.json'), { ...agent('gemini', [0, 0]), model: 'gemini-2.5-pro' });
+
+    const run = await loadRun(path.join(dir, 'a'));
+    expect([...run.keys()].sort()).toEqual(['x (claude)', 'x (gemini)']);
+
+    const logSpy = vi.spyOn(console, 'log');
+    await runCompare(path.join(dir, 'a'), path.join(dir, 'b'), 'json');
+
+    const result = JSON.parse(String(logSpy.mock.calls[0][0]));
+    expect(result.tasks.map((t: any) => [t.task, t.passRate.delta])).toEqual([['x (claude)', 1]]);
+    expect(result.onlyInA).toEqual(['x (gemini)']);
+    expect(result.onlyInB).toEqual(['x (gemini gemini-2.5-pro)']);
+  });
+
+  it('throws when a run does not exist', async () => {
+    await expect(loadRun(path.join(dir, 'missing'))).rejects.toThrow('Run not found');
+  });
+});
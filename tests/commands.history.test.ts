@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { buildHistory, sparkline } from '../src/commands/history';
+import { EvalReport, RunManifest } from '../src/types';
+
+function report(task: string, time: string, passRate: number, runId?: string, extra: Partial<EvalReport> = {}): EvalReport & { time: string } {
+  return {
+    task,
+    time,
+    run_id: runId,
+    pass_rate: passRate,
+    pass_at_k: passRate,
+    pass_pow_k: passRate,
+    trials: [{ trial_id: 1, reward: passRate, grader_results: [], duration_ms: 2000, n_commands: 1, input_tokens: 0, output_tokens: 0, session_log: [] }],
+    skills_used: ['lint'],
+    ...extra,
+  };
+}
+
+function manifest(runId: string, agent: string, skillHash: string): RunManifest {
+  return {
+    run_id: runId,
+    started_at: '2026-01-01T00:00:00.000Z',
+    skillgrade_version: '0.1.4',
+    options: {},
+    skills: ['lint'],
+    skill_hash: skillHash,
+    tasks: [{ task: 'fix-lint', agent, provider: 'local', trials: 1, status: 'completed' }],
+  };
+}
+
+describe('sparkline', () => {
+  it('scales values to the given range', () => {
+    expect(sparkline([0, 0.5, 1], 0, 1)).toBe('▁▅█');
+    expect(sparkline([10, 20])).toBe('▁█');
+    expect(sparkline([3, 3])).toBe('██');
+  });
+});
+
+describe('buildHistory', () => {
+  const runs = new Map([
+    ['r1', manifest('r1', 'claude', 'aaa')],
+    ['r2', manifest('r2', 'claude', 'aaa')],
+    ['r3', manifest('r3', 'gemini', 'aaa')],
+  ]);
+
+  it('groups reports by task, agent and skill hash in time order', () => {
+    const series = buildHistory([
+      report('fix-lint', '2026-01-02T00:00:00.000Z', 0.6, 'r2'),
+      report('fix-lint', '2026-01-01T00:00:00.000Z', 0.8, 'r1', { usage: { input_tokens: 0, output_tokens: 0, tokens_estimated: false, cost_usd: 0.5 } }),
+      report('fix-lint', '2026-01-03T00:00:00.000Z', 0.9, 'r3'),
+      report('fix-lint', '2026-01-04T00:00:00.000Z', 0.7),
+    ], runs);
+
+    expect(series.map(s => [s.agent, s.skill_hash, s.points.length])).toEqual([
+      ['claude', 'aaa', 2],
+      ['gemini', 'aaa', 1],
+      ['unknown', undefined, 1],
+    ]);
+    expect(series[0].points.map(p => p.pass_rate)).toEqual([0.8, 0.6]);
+    expect(series[0].points[0]).toMatchObject({ run_id: 'r1', avg_duration_ms: 2000, cost_usd: 0.5, trials: 1 });
+  });
+
+  it('splits series by the agent and model recorded on each report', () => {
+    const series = buildHistory([
+      report('fix-lint', '2026-01-01T00:00:00.000Z', 0.8, 'r1', { agent: 'claude', model: 'claude-opus-4-1' }),
+      report('fix-lint', '2026-01-01T00:00:01.000Z', 0.6, 'r1', { agent: 'claude', model: 'claude-sonnet-4-5' }),
+      report('fix-lint', '2026-01-01T00:00:02.000Z', 0.7, 'r1', { agent: 'gemini' }),
+    ], runs);
+
+    expect(series.map(s => [s.agent, s.model, s.points.length])).toEqual([
+      ['claude', 'claude-opus-4-1', 1],
+      ['claude', 'claude-sonnet-4-5', 1],
+      ['gemini', undefined, 1],
+    ]);
+  });
+
+  it('flags a drop larger than delta between the last two runs', () => {
+    const reports = [
+      report('fix-lint', '2026-01-01T00:00:00.000Z', 0.8, 'r1'),
+      report('fix-lint', '2026-01-02T00:00:00.000Z', 0.6, 'r2'),
+    ];
+
+    const [flagged] = buildHistory(reports, runs, 0.1);
+    expect(flagged.regression?.from).toBe(0.8);
+    expect(flagged.regression?.to).toBe(0.6);
+    expect(flagged.regression?.delta).toBeCloseTo(-0.2);
+
+    expect(buildHistory(reports, runs, 0.25)[0].regression).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { lintEval, frontmatterProblems } from '../src/commands/lint';
+
+const SKILL_MD = '---\nname: my-skill\ndescription: Fixes lint errors. Use when asked to lint code.\n---\n\n# My Skill\n';
+
+describe('lintEval', () => {
+  let rootDir: string;
+  let dir: string;
+
+  async function write(file: string, content: string) {
+    await fsExtra.outputFile(path.join(dir, file), content);
+  }
+
+  beforeEach(async () => {
+    rootDir = path.join(os.tmpdir(), `skillgrade-lint-test-${Date.now()}`);
+    dir = path.join(rootDir, 'my-skill');
+    await write('SKILL.md', SKILL_MD);
+    await write('fixtures/app.js', 'var x = 1');
+    await write('graders/check.sh', 'node -e "require(\'./app.js\')"');
+    await write('instructions/fix.md', 'Fix the lint errors in app.js.');
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(rootDir); } catch {}
+  });
+
+  it('reports nothing for a clean eval', async () => {
+    await write('eval.yaml', `
+tasks:
+  - name: fix-lint
+    instruction: instructions/fix.md
+    workspace:
+      - src: fixtures/app.js
+        dest: app.js
+    graders:
+      - type: deterministic
+        run: graders/check.sh
+`);
+    expect(await lintEval(dir)).toEqual([]);
+  });
+
+  it('reports schema errors with their position and stops', async () => {
+    await write('eval.yaml', `
+defaults:
+  trials: 0
+tasks:
+  - name: fix-lint
+    instruction: instructions/missing.md
+    graders:
+      - type: deterministic
+        run: exit 0
+`);
+    expect(await lintEval(dir)).toEqual([
+      { severity: 'error', where: 'eval.yaml:3:11', message: 'defaults.trials must be >= 1, got 0' },
+    ]);
+  });
+
+  it('reports a missing eval.yaml', async () => {
+    const issues = await lintEval(dir);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe('error');
+    expect(issues[0].message).toContain('eval.yaml');
+  });
+
+  it('reports file references that fell back to inline text and missing workspace files', async () => {
+    await write('eval.yaml', `
+tasks:
+  - name: fix-lint
+    instruction: instructions/fixx.md
+    workspace:
+      - src: fixtures/missing.js
+        dest: app.js
+    graders:
+      - type: deterministic
+        run: graders/chek.sh
+      - type: llm_rubric
+        rubric: Did the agent follow the workflow?
+`);
+    const messages = (await lintEval(dir)).map(i => `${i.severity} ${i.where}: ${i.message}`);
+    expect(messages).toEqual([
+      'error task fix-lint: instruction "instructions/fixx.md" looks like a file path, but no such file exists; using it as inline text',
+      'error task fix-lint: run "graders/chek.sh" looks like a file path, but no such file exists; using it as inline text',
+      'error task fix-lint: workspace src "fixtures/missing.js" not found',
+    ]);
+  });
+
+  it('rejects non-positive grader weights', async () => {
+    await write('eval.yaml', `
+tasks:
+  - name: fix-lint
+    instruction: Fix app.js
+    graders:
+      - type: deterministic
+        run: exit 0
+        weight: 0
+`);
+    expect(await lintEval(dir)).toEqual([
+      { severity: 'error', where: 'task fix-lint', message: 'grader 1 (deterministic) has weight 0; weights must be positive' },
+    ]);
+  });
+
+  it('warns when the grader checks files the instruction never mentions', async () => {
+    await write('eval.yaml', `
+tasks:
+  - name: fix-lint
+    instruction: Fix the lint errors in app.js.
+    workspace:
+      - src: fixtures/app.js
+        dest: app.js
+    graders:
+      - type: deterministic
+        run: |
+          test -f report.json && grep -q ok out/summary.txt
+          bash graders/check.sh
+`);
+    expect(await lintEval(dir)).toEqual([
+      { severity: 'warning', where: 'task fix-lint', message: 'grader 1 (deterministic) checks report.json, summary.txt, which the instruction never mentions' },
+    ]);
+  });
+
+  it('does not mistake property access for file names', async () => {
+    await write('eval.yaml', `
+tasks:
+  - name: fix-lint
+    instruction: Fix the lint errors in app.js.
+    graders:
+      - type: deterministic
+        run: |
+          node -e "console.log(process.env.API_KEY, require('./package.json')['name'], data.json.length)"
+          test -f config/.env
+`);
+    expect(await lintEval(dir)).toEqual([
+      { severity: 'warning', where: 'task fix-lint', message: 'grader 1 (deterministic) checks .env, package.json, which the instruction never mentions' },
+    ]);
+  });
+
+  it('checks the frontmatter of the configured skill', async () => {
+    await write('other/SKILL.md', '# Other skill\n');
+    await write('eval.yaml', `
+skill: other
+tasks:
+  - name: fix-lint
+    instruction: Fix app.js
+    graders:
+      - type: deterministic
+        run: exit 0
+`);
+    expect(await lintEval(dir)).toEqual([
+      { severity: 'error', where: path.join('other', 'SKILL.md'), message: 'missing YAML frontmatter (--- name/description ---)' },
+    ]);
+  });
+});
+
+describe('frontmatterProblems', () => {
+  it('accepts a valid frontmatter', () => {
+    expect(frontmatterProblems(SKILL_MD, 'my-skill')).toEqual([]);
+  });
+
+  it('requires name and description', () => {
+    expect(frontmatterProblems('---\ntitle: x\n---\n', 'my-skill').map(p => p.message)).toEqual([
+      'frontmatter is missing "name"',
+      'frontmatter is missing "description"; agents use it to decide when to load the skill',
+    ]);
+  });
+
+  it('reports invalid YAML', () => {
+    const [problem] = frontmatterProblems('---\nname: [oops\n---\n', 'my-skill');
+    expect(problem.severity).toBe('error');
+    expect(problem.message).toMatch(/^invalid frontmatter YAML/);
+  });
+
+  it('warns about names that break the naming rules', () => {
+    const problems = frontmatterProblems(`---\nname: My_Skill\ndescription: ${'x'.repeat(1100)}\n---\n`, 'my-skill');
+    expect(problems.map(p => p.severity)).toEqual(['warning', 'warning', 'warning']);
+    expect(problems[1].message).toBe('name "My_Skill" doesn\'t match its directory "my-skill"');
+    expect(problems[2].message).toBe('description is 1100 characters (max 1024)');
+  });
+});
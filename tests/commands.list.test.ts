@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { listEntry, formatList } from '../src/commands/list';
+import { EvalConfig, EvalTaskConfig } from '../src/core/config.types';
+
+const task: EvalTaskConfig = {
+  name: 'fix-lint',
+  instruction: 'Fix app.js',
+  tags: ['fast', 'lint'],
+  graders: [
+    { type: 'deterministic', run: 'exit 0', weight: 0.7 },
+    { type: 'llm_rubric', rubric: 'Good?', weight: 0.3 },
+  ],
+};
+
+function config(extra: Partial<EvalConfig> = {}): EvalConfig {
+  return {
+    version: '1',
+    defaults: {
+      agent: 'gemini',
+      provider: 'docker',
+      trials: 5,
+      timeout: 300,
+      threshold: 0.8,
+      pass_threshold: 0.5,
+      docker: { base: 'node:20-slim' },
+      environment: { cpus: 2, memory_mb: 2048 },
+    },
+    tasks: [task],
+    ...extra,
+  };
+}
+
+describe('listEntry', () => {
+  it('applies defaults for agent and trials', () => {
+    expect(listEntry(task, config())).toEqual({
+      name: 'fix-lint',
+      tags: ['fast', 'lint'],
+      agents: ['gemini'],
+      trials: 5,
+      graders: ['deterministic', 'llm_rubric'],
+    });
+    expect(listEntry({ ...task, agent: 'claude', trials: 2 }, config())).toMatchObject({ agents: ['claude'], trials: 2 });
+  });
+
+  it('lists every matrix entry as the agent', () => {
+    const matrix = [{ agent: 'gemini' }, { agent: 'claude', model: 'claude-sonnet-4-5' }];
+    expect(listEntry({ ...task, agent: 'codex' }, config({ matrix })).agents).toEqual(['gemini', 'claude:claude-sonnet-4-5']);
+  });
+});
+
+describe('formatList', () => {
+  it('aligns columns under a header', () => {
+    const lines = formatList([
+      listEntry(task, config()),
+      listEntry({ ...task, name: 'write-tests', tags: undefined, trials: 15, graders: [{ type: 'skill_triggered', weight: 1 }] }, config()),
+    ]);
+    expect(lines.slice(1)).toEqual([
+      'fix-lint     fast, lint  gemini       5  deterministic, llm_rubric',
+      'write-tests  —           gemini      15  skill_triggered',
+    ]);
+    expect(lines[0]).toContain('Name         Tags        Agent   Trials  Graders');
+  });
+});
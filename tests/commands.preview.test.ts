@@ -10,18 +10,21 @@ vi.mock('../src/reporters/cli', () => ({
 
 vi.mock('../src/reporters/browser', () => ({
   runBrowserPreview: vi.fn(),
+  exportHtmlReport: vi.fn(),
 }));
 
 import * as fs from 'fs-extra';
 import { runPreview } from '../src/commands/preview';
 import { runCliPreview } from '../src/reporters/cli';
-import { runBrowserPreview } from '../src/reporters/browser';
+import { runBrowserPreview, exportHtmlReport } from '../src/reporters/browser';
 
 const mockRunCliPreview = vi.mocked(runCliPreview);
 const mockRunBrowserPreview = vi.mocked(runBrowserPreview);
+const mockExportHtmlReport = vi.mocked(exportHtmlReport);
 
 beforeEach(() => {
   vi.resetAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
 });
 
 describe('runPreview', () => {
@@ -56,4 +59,13 @@ describe('runPreview', () => {
     expect(calledPath).toContain('project');
     expect(calledPath).toContain('results');
   });
+
+  it('exports an HTML report instead of opening a viewer', async () => {
+    mockExportHtmlReport.mockResolvedValue(2);
+    await runPreview('/project', 'browser', '/custom/output', 'out/report.html');
+
+    expect(mockExportHtmlReport).toHaveBeenCalledWith('/custom/output/project/results', '/project/out/report.html');
+    expect(mockRunBrowserPreview).not.toHaveBeenCalled();
+    expect(mockRunCliPreview).not.toHaveBeenCalled();
+  });
 });
@@ -6,6 +6,7 @@ import * as path from 'path';
 
 vi.mock('fs-extra', () => ({
   pathExists: vi.fn(),
+  readdir: vi.fn(),
   readFile: vi.fn(),
   ensureDir: vi.fn(),
   writeFile: vi.fn(),
@@ -14,6 +15,7 @@ vi.mock('fs-extra', () => ({
 
 import * as fs from 'fs-extra';
 import { ResolvedTask } from '../src/core/config.types';
+import { checkpointHash } from '../src/commands/run';
 
 // TaskConfig type for testing (not exported from types)
 interface TaskConfig {
@@ -26,7 +28,7 @@ interface TaskConfig {
     tags: string[];
   };
   graders: Array<{
-    type: 'deterministic' | 'llm_rubric';
+    type: 'deterministic' | 'llm_rubric' | 'skill_triggered';
     command?: string;
     rubric?: string;
     weight: number;
@@ -90,6 +92,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 300,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -110,6 +113,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 300,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -130,6 +134,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 600,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -148,6 +153,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 300,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -172,6 +178,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 300,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -192,6 +199,7 @@ describe('resolvedToTaskConfig', () => {
       provider: 'docker',
       trials: 5,
       timeout: 300,
+      pass_threshold: 0.5,
       docker: { base: 'node:20-slim' },
       environment: { cpus: 2, memory_mb: 2048 },
     };
@@ -237,3 +245,36 @@ SINGLE='quoted'
     });
   });
 });
+
+describe('checkpointHash', () => {
+  const resolved: ResolvedTask = {
+    name: 'fix-lint',
+    instruction: 'Fix app.js',
+    workspace: [],
+    graders: [{ type: 'deterministic', run: 'exit 0', weight: 1 }],
+    agent: 'gemini',
+    provider: 'local',
+    trials: 5,
+    timeout: 300,
+    pass_threshold: 0.5,
+    docker: { base: 'node:20-slim' },
+    environment: { cpus: 2, memory_mb: 2048 },
+  };
+  const evalOpts = { instruction: 'Fix app.js', graders: resolved.graders, timeoutSec: 300, environment: resolved.environment };
+
+  function mockSkill(content: string) {
+    vi.mocked(fs.readdir).mockResolvedValue([{ name: 'SKILL.md', isDirectory: () => false, isFile: () => true }] as any);
+    vi.mocked(fs.readFile).mockResolvedValue(content as any);
+  }
+
+  it('changes when a skill file is edited', async () => {
+    const hash = () => checkpointHash(resolved, { agent: 'gemini' }, 'local', ['/skills/superlint'], evalOpts);
+
+    mockSkill('# Superlint v1');
+    const before = await hash();
+    expect(await hash()).toBe(before);
+
+    mockSkill('# Superlint v2');
+    expect(await hash()).not.toBe(before);
+  });
+});
@@ -7,7 +7,7 @@ vi.mock('fs-extra', () => ({
 }));
 
 import * as fs from 'fs-extra';
-import { loadEvalConfig, resolveTask } from '../src/core/config';
+import { loadEvalConfig, resolveTask, parseMatrixEntry, expandTask, substituteParameters, selectTasks, unknownTags } from '../src/core/config';
 import { EvalTaskConfig, EvalDefaults } from '../src/core/config.types';
 
 const mockPathExists = vi.mocked(fs.pathExists);
@@ -26,19 +26,19 @@ describe('loadEvalConfig', () => {
   it('throws when YAML is not an object', async () => {
     mockPathExists.mockResolvedValue(true as any);
     mockReadFile.mockResolvedValue('just a string' as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('must be a YAML object');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:1:1: error: eval.yaml must be a mapping, got string "just a string"');
   });
 
   it('throws when tasks array is missing', async () => {
     mockPathExists.mockResolvedValue(true as any);
     mockReadFile.mockResolvedValue('version: "1"\n' as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('at least one task');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('missing required key "tasks"');
   });
 
   it('throws when tasks array is empty', async () => {
     mockPathExists.mockResolvedValue(true as any);
     mockReadFile.mockResolvedValue('version: "1"\ntasks: []\n' as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('at least one task');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:2:8: error: tasks must not be empty');
   });
 
   it('throws when task is missing name', async () => {
@@ -51,7 +51,7 @@ tasks:
         run: "echo ok"
 `;
     mockReadFile.mockResolvedValue(yaml as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('missing a "name"');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:3:5: error: tasks[0] is missing required key "name"');
   });
 
   it('throws when task is missing instruction', async () => {
@@ -64,7 +64,7 @@ tasks:
         run: "echo ok"
 `;
     mockReadFile.mockResolvedValue(yaml as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('missing an "instruction"');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('tasks[0] is missing required key "instruction"');
   });
 
   it('throws when task has no graders', async () => {
@@ -75,7 +75,7 @@ tasks:
     instruction: "do something"
 `;
     mockReadFile.mockResolvedValue(yaml as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('at least one grader');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('tasks[0] is missing required key "graders"');
   });
 
   it('throws on workspace mapping without src/dest', async () => {
@@ -91,7 +91,7 @@ tasks:
         run: "echo ok"
 `;
     mockReadFile.mockResolvedValue(yaml as any);
-    await expect(loadEvalConfig('/test')).rejects.toThrow('without src/dest');
+    await expect(loadEvalConfig('/test')).rejects.toThrow('tasks[0].workspace[0] is missing required key "src"');
   });
 
   it('parses valid config correctly', async () => {
@@ -207,6 +207,496 @@ tasks:
     const config = await loadEvalConfig('/test');
     expect(config.tasks[0].graders[0].weight).toBe(1.0);
   });
+
+  it('parses top-level and per-task distractor_skills', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+distractor_skills:
+  - ../other-skill
+tasks:
+  - name: test-task
+    instruction: do it
+    distractor_skills: ../decoy/SKILL.md
+    graders:
+      - type: deterministic
+        run: "echo ok"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+
+    const config = await loadEvalConfig('/test');
+    expect(config.distractor_skills).toEqual(['../other-skill']);
+    expect(config.tasks[0].distractor_skills).toEqual(['../decoy/SKILL.md']);
+  });
+
+  it('throws when distractor_skills is not a list of paths', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+distractor_skills:
+  - { path: other }
+tasks:
+  - name: test-task
+    instruction: do it
+    graders:
+      - type: deterministic
+        run: "echo ok"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:3:5: error: distractor_skills[0] must be a string, got a mapping');
+  });
+
+  it('parses pass_threshold and required graders', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+defaults:
+  pass_threshold: 0.6
+tasks:
+  - name: test-task
+    instruction: do it
+    pass_threshold: 0.7
+    graders:
+      - type: deterministic
+        run: "echo ok"
+        required: true
+        pass_threshold: 1
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+
+    const config = await loadEvalConfig('/test');
+    expect(config.defaults.pass_threshold).toBe(0.6);
+    expect(config.tasks[0].pass_threshold).toBe(0.7);
+    expect(config.tasks[0].graders[0]).toMatchObject({ required: true, pass_threshold: 1 });
+  });
+
+  it('throws when pass_threshold is outside 0..1', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+tasks:
+  - name: test-task
+    instruction: do it
+    pass_threshold: 70
+    graders:
+      - type: deterministic
+        run: "echo ok"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:5:21: error: tasks[0].pass_threshold must be <= 1, got 70');
+  });
+
+  it('keeps per-task environment and grader_model', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+tasks:
+  - name: test-task
+    instruction: do it
+    grader_model: claude-sonnet-4-5
+    environment:
+      memory_mb: 4096
+    graders:
+      - type: llm_rubric
+        rubric: "Was it good?"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+
+    const config = await loadEvalConfig('/test');
+    expect(config.tasks[0].grader_model).toBe('claude-sonnet-4-5');
+    expect(config.tasks[0].environment).toEqual({ memory_mb: 4096 });
+  });
+
+  it('parses matrix entries in string and object form', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+matrix:
+  - gemini
+  - claude:claude-sonnet-4-5
+  - agent: opencode
+    model: anthropic/claude-sonnet-4-5
+tasks:
+  - name: test-task
+    instruction: do it
+    graders:
+      - type: deterministic
+        run: "echo ok"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+
+    const config = await loadEvalConfig('/test');
+    expect(config.matrix).toEqual([
+      { agent: 'gemini' },
+      { agent: 'claude', model: 'claude-sonnet-4-5' },
+      { agent: 'opencode', model: 'anthropic/claude-sonnet-4-5' },
+    ]);
+  });
+
+  it('throws when a matrix entry has no agent', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    const yaml = `version: "1"
+matrix:
+  - model: gpt-5
+tasks:
+  - name: test-task
+    instruction: do it
+    graders:
+      - type: deterministic
+        run: "echo ok"
+`;
+    mockReadFile.mockResolvedValue(yaml as any);
+    await expect(loadEvalConfig('/test')).rejects.toThrow('matrix[0] is missing required key "agent"');
+  });
+});
+
+describe('parameterized tasks', () => {
+  it('expands a task into one variant per combination of parameter values', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue(`tasks:
+  - name: fix-{{fixture}}-node{{ node }}
+    parameters:
+      fixture: [app.js, lib/utils.js]
+      node: [18, 20]
+    instruction: Fix the lint errors in {{fixture}} on Node {{node}}
+    workspace:
+      - src: fixtures/{{fixture}}
+        dest: "{{fixture}}"
+    graders:
+      - type: deterministic
+        run: npx eslint {{fixture}} {{unknown}}
+` as any);
+    const config = await loadEvalConfig('/test');
+    expect(config.tasks.map(t => t.name)).toEqual([
+      'fix-app.js-node18',
+      'fix-app.js-node20',
+      'fix-lib-utils.js-node18',
+      'fix-lib-utils.js-node20',
+    ]);
+    const task = config.tasks[3];
+    expect(task.parameters).toBeUndefined();
+    expect(task.variant).toEqual({ task: 'fix-{{fixture}}-node{{ node }}', values: { fixture: 'lib/utils.js', node: '20' } });
+    expect(task.instruction).toBe('Fix the lint errors in lib/utils.js on Node 20');
+    expect(task.workspace).toEqual([{ src: 'fixtures/lib/utils.js', dest: 'lib/utils.js', chmod: undefined }]);
+    expect(task.graders[0].run).toBe('npx eslint lib/utils.js {{unknown}}');
+  });
+
+  it('appends the values to a name without placeholders', () => {
+    const task: EvalTaskConfig = {
+      name: 'fix',
+      instruction: 'Fix {{file}}',
+      parameters: { file: ['a.js', 'b.js'] },
+      graders: [{ type: 'deterministic', run: 'test -f {{file}}', weight: 1 }],
+    };
+    expect(expandTask(task).map(t => [t.name, t.graders[0].run])).toEqual([
+      ['fix-a.js', 'test -f a.js'],
+      ['fix-b.js', 'test -f b.js'],
+    ]);
+  });
+
+  it('leaves tasks without parameters unchanged', () => {
+    const task: EvalTaskConfig = { name: 'plain', instruction: 'Use {{ value }}', graders: [] };
+    expect(expandTask(task)).toEqual([task]);
+  });
+
+  it('substitutes only known parameters', () => {
+    expect(substituteParameters('{{a}} {{ a }} {{b}}', { a: '1' })).toBe('1 1 {{b}}');
+  });
+
+  it('rejects variants that collide with another task name', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue(`tasks:
+  - name: fix-a
+    instruction: Fix a
+    graders:
+      - type: deterministic
+        run: exit 0
+  - name: fix
+    parameters:
+      file: [a, b]
+    instruction: Fix {{file}}
+    graders:
+      - type: deterministic
+        run: exit 0
+` as any);
+    await expect(loadEvalConfig('/test')).rejects.toThrow('task "fix": parameters expand to the task name "fix-a", which is already used');
+  });
+
+  it('requires a non-empty list of values per parameter', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue(`tasks:
+  - name: fix
+    parameters:
+      file: []
+    instruction: Fix {{file}}
+    graders:
+      - type: deterministic
+        run: exit 0
+` as any);
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml:4:13: error: tasks[0].parameters.file must not be empty');
+  });
+});
+
+describe('include and extends', () => {
+  function mockFiles(files: Record<string, string>) {
+    mockPathExists.mockImplementation((async (p: string) => p in files) as any);
+    mockReadFile.mockImplementation((async (p: string) => files[p]) as any);
+  }
+
+  const shared = `defaults:
+  trials: 3
+  docker:
+    setup: npm i -g eslint
+tasks:
+  - name: lint-base
+    abstract: true
+    workspace:
+      - fixtures/.eslintrc.json
+    graders:
+      - type: deterministic
+        run: graders/eslint.sh
+        weight: 0.7
+`;
+
+  it('merges defaults and tasks from included files, with paths relative to them', async () => {
+    mockFiles({
+      '/repo/skill/eval.yaml': `include: ../shared/lint.yaml
+defaults:
+  docker:
+    base: node:22
+tasks:
+  - name: fix-app
+    extends: lint-base
+    instruction: Fix app.js
+    workspace:
+      - fixtures/app.js
+    graders:
+      - type: llm_rubric
+        rubric: Was the workflow followed?
+        weight: 0.3
+`,
+      '/repo/shared/lint.yaml': shared,
+      '/repo/shared/graders/eslint.sh': 'npx eslint .',
+    });
+
+    const config = await loadEvalConfig('/repo/skill');
+    expect(config.defaults.trials).toBe(3);
+    expect(config.defaults.docker).toEqual({ base: 'node:22', setup: 'npm i -g eslint' });
+    expect(config.tasks).toHaveLength(1);
+    const task = config.tasks[0];
+    expect(task.name).toBe('fix-app');
+    expect(task.workspace).toEqual([
+      { src: '../shared/fixtures/.eslintrc.json', dest: '.eslintrc.json' },
+      { src: 'fixtures/app.js', dest: 'app.js' },
+    ]);
+    expect(task.graders.map(g => [g.type, g.run ?? g.rubric, g.weight])).toEqual([
+      ['deterministic', '../shared/graders/eslint.sh', 0.7],
+      ['llm_rubric', 'Was the workflow followed?', 0.3],
+    ]);
+  });
+
+  it('rebases file paths with parameter placeholders from included files', async () => {
+    mockFiles({
+      '/repo/skill/eval.yaml': `include: ../shared/fix.yaml
+tasks:
+  - name: fix-{{file}}
+    extends: fix-base
+    parameters:
+      file: [app, lib]
+`,
+      '/repo/shared/fix.yaml': `tasks:
+  - name: fix-base
+    abstract: true
+    instruction: prompts/fix-{{ file }}.md
+    graders:
+      - type: deterministic
+        run: graders/check-{{file}}.sh
+      - type: llm_rubric
+        rubric: Did it fix {{file}}?
+`,
+      '/repo/shared/prompts/fix-app.md': 'Fix app.js',
+      '/repo/shared/prompts/fix-lib.md': 'Fix lib.js',
+    });
+
+    const config = await loadEvalConfig('/repo/skill');
+    expect(config.tasks.map(t => [t.name, t.instruction, t.graders[0].run, t.graders[1].rubric])).toEqual([
+      ['fix-app', '../shared/prompts/fix-app.md', '../shared/graders/check-app.sh', 'Did it fix app?'],
+      ['fix-lib', '../shared/prompts/fix-lib.md', '../shared/graders/check-lib.sh', 'Did it fix lib?'],
+    ]);
+  });
+
+  it('applies extends chains defined inside an included file', async () => {
+    mockFiles({
+      '/repo/skill/eval.yaml': `include: shared/base.yaml
+tasks:
+  - name: local-child
+    extends: child-in-include
+    trials: 4
+`,
+      '/repo/skill/shared/base.yaml': `tasks:
+  - name: base
+    abstract: true
+    instruction: prompts/fix.md
+    solution: solutions/fix.sh
+    workspace:
+      - fixtures/app.js
+    graders:
+      - type: deterministic
+        run: graders/check.sh
+  - name: child-in-include
+    extends: base
+    trials: 2
+`,
+      '/repo/skill/shared/prompts/fix.md': 'Fix app.js',
+    });
+
+    const config = await loadEvalConfig('/repo/skill');
+    expect(config.tasks.map(t => [t.name, t.instruction, t.solution, t.trials, t.workspace?.length, t.graders[0].run])).toEqual([
+      ['child-in-include', 'shared/prompts/fix.md', 'shared/solutions/fix.sh', 2, 1, 'shared/graders/check.sh'],
+      ['local-child', 'shared/prompts/fix.md', 'shared/solutions/fix.sh', 4, 1, 'shared/graders/check.sh'],
+    ]);
+  });
+
+  it('follows extends chains and lets the task override inherited settings', async () => {
+    mockFiles({
+      '/test/eval.yaml': `tasks:
+  - name: base
+    abstract: true
+    trials: 2
+    environment:
+      cpus: 4
+    graders:
+      - type: deterministic
+        run: exit 0
+  - name: middle
+    extends: base
+    instruction: Do the thing
+    timeout: 60
+  - name: leaf
+    extends: middle
+    trials: 8
+    environment:
+      memory_mb: 4096
+`,
+    });
+
+    const config = await loadEvalConfig('/test');
+    expect(config.tasks.map(t => [t.name, t.instruction, t.trials, t.timeout, t.graders.length])).toEqual([
+      ['middle', 'Do the thing', 2, 60, 1],
+      ['leaf', 'Do the thing', 8, 60, 1],
+    ]);
+    expect(config.tasks[1].environment).toEqual({ cpus: 4, memory_mb: 4096 });
+  });
+
+  it('reports unknown and cyclic extends', async () => {
+    const yaml = (extendsA: string) => `tasks:
+  - name: a
+    extends: ${extendsA}
+  - name: b
+    extends: a
+`;
+    mockFiles({ '/test/eval.yaml': yaml('bb') });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('task "a" extends unknown task "bb" (did you mean "b"?)');
+
+    mockFiles({ '/test/eval.yaml': yaml('b') });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('task "a": extends cycle a → b → a');
+  });
+
+  it('requires an instruction and graders once extends is applied', async () => {
+    mockFiles({
+      '/test/eval.yaml': `tasks:
+  - name: base
+    abstract: true
+    instruction: Do it
+  - name: child
+    extends: base
+`,
+    });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('task "child" has no graders (add one or extend a task that has some)');
+  });
+
+  it('labels schema errors with the included file and detects include cycles', async () => {
+    mockFiles({
+      '/test/eval.yaml': 'include: shared.yaml\ntasks:\n  - name: a\n    extends: base\n',
+      '/test/shared.yaml': 'defaults:\n  trials: 0\n',
+    });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('shared.yaml:2:11: error: defaults.trials must be >= 1, got 0');
+
+    mockFiles({
+      '/test/eval.yaml': 'include: shared.yaml\ntasks:\n  - name: a\n    extends: base\n',
+      '/test/shared.yaml': 'include: eval.yaml\n',
+    });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('include cycle: eval.yaml → shared.yaml → eval.yaml');
+  });
+
+  it('reports a missing included file', async () => {
+    mockFiles({ '/test/eval.yaml': 'include: [missing.yaml]\ntasks:\n  - name: a\n    extends: base\n' });
+    await expect(loadEvalConfig('/test')).rejects.toThrow('eval.yaml: included file "missing.yaml" not found');
+  });
+});
+
+describe('selectTasks', () => {
+  const task = (name: string, tags?: string[], variantOf?: string): EvalTaskConfig => ({
+    name,
+    instruction: 'x',
+    graders: [],
+    tags,
+    ...(variantOf ? { variant: { task: variantOf, values: {} } } : {}),
+  });
+  const tasks = [
+    task('angular-signals', ['fast', 'angular']),
+    task('angular-forms', ['slow', 'angular']),
+    task('fix-app.js', ['fast'], 'fix-{{file}}'),
+    task('fix-lib.js', undefined, 'fix-{{file}}'),
+  ];
+  const names = (selection: Parameters<typeof selectTasks>[1]) => selectTasks(tasks, selection).map(t => t.name);
+
+  it('selects everything without a selection', () => {
+    expect(names({})).toHaveLength(4);
+  });
+
+  it('matches names exactly or with * and ? wildcards', () => {
+    expect(names({ eval: 'angular-forms' })).toEqual(['angular-forms']);
+    expect(names({ eval: 'angular-*' })).toEqual(['angular-signals', 'angular-forms']);
+    expect(names({ eval: 'fix-???.js, angular-s*' })).toEqual(['angular-signals', 'fix-app.js', 'fix-lib.js']);
+    expect(names({ eval: 'angular' })).toEqual([]);
+    expect(names({ eval: 'fix-app.j' })).toEqual([]);
+  });
+
+  it('selects every variant by the parameterized task name', () => {
+    expect(names({ eval: 'fix-{{file}}' })).toEqual(['fix-app.js', 'fix-lib.js']);
+  });
+
+  it('keeps tasks with any of the tags and drops excluded ones', () => {
+    expect(names({ tags: ['fast'] })).toEqual(['angular-signals', 'fix-app.js']);
+    expect(names({ tags: ['fast', 'slow'], excludeTags: ['angular'] })).toEqual(['fix-app.js']);
+    expect(names({ eval: 'angular-*', excludeTags: ['slow'] })).toEqual(['angular-signals']);
+  });
+
+  it('reports tags no task has', () => {
+    expect(unknownTags(tasks, { tags: ['fast', 'fsat'], excludeTags: ['slow', 'flaky'] })).toEqual(['fsat', 'flaky']);
+  });
+
+  it('appends inherited tags with extends', async () => {
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue(`tasks:
+  - name: base
+    abstract: true
+    tags: [lint, fast]
+  - name: child
+    extends: base
+    tags: [fast, regression]
+    instruction: Do it
+    graders:
+      - type: deterministic
+        run: exit 0
+` as any);
+    const config = await loadEvalConfig('/test');
+    expect(config.tasks[0].tags).toEqual(['lint', 'fast', 'regression']);
+  });
+});
+
+describe('parseMatrixEntry', () => {
+  it('splits agent and model on the first colon', () => {
+    expect(parseMatrixEntry('claude')).toEqual({ agent: 'claude' });
+    expect(parseMatrixEntry(' claude:claude-opus-4-1 ')).toEqual({ agent: 'claude', model: 'claude-opus-4-1' });
+    expect(parseMatrixEntry('opencode:ollama:llama3')).toEqual({ agent: 'opencode', model: 'ollama:llama3' });
+    expect(parseMatrixEntry('gemini:')).toEqual({ agent: 'gemini' });
+  });
 });
 
 describe('resolveTask', () => {
@@ -216,6 +706,7 @@ describe('resolveTask', () => {
     trials: 5,
     timeout: 300,
     threshold: 0.8,
+    pass_threshold: 0.5,
     docker: { base: 'node:20-slim' },
     environment: { cpus: 2, memory_mb: 2048 },
   };
@@ -313,6 +804,41 @@ describe('resolveTask', () => {
     expect(resolved.graders[0].rubric).toBe('Evaluate quality...');
   });
 
+  it('keeps skill_triggered grader expectations', async () => {
+    const task: EvalTaskConfig = {
+      name: 'test-task',
+      instruction: 'multi\nline instruction',
+      graders: [{ type: 'skill_triggered', skills: ['lint'], forbidden_skills: ['deploy'], min_source: 'tool_use', weight: 1.0 }],
+    };
+
+    const resolved = await resolveTask(task, defaults, '/base');
+    expect(resolved.graders[0]).toEqual({
+      type: 'skill_triggered',
+      skills: ['lint'],
+      forbidden_skills: ['deploy'],
+      min_source: 'tool_use',
+      weight: 1.0,
+    });
+  });
+
+  it('applies the task pass_threshold to required graders without their own', async () => {
+    const task: EvalTaskConfig = {
+      name: 'test-task',
+      instruction: 'do it',
+      pass_threshold: 0.7,
+      graders: [
+        { type: 'deterministic', run: 'echo ok', required: true, weight: 1.0 },
+        { type: 'llm_rubric', rubric: 'be good', pass_threshold: 0.9, weight: 1.0 },
+      ],
+    };
+
+    const resolved = await resolveTask(task, defaults, '/base');
+    expect(resolved.pass_threshold).toBe(0.7);
+    expect(resolved.graders[0]).toMatchObject({ required: true, pass_threshold: 0.7 });
+    expect(resolved.graders[1].required).toBeUndefined();
+    expect(resolved.graders[1].pass_threshold).toBeUndefined();
+  });
+
   it('resolves solution path', async () => {
     const task: EvalTaskConfig = {
       name: 'test-task',
@@ -351,4 +877,21 @@ describe('resolveTask', () => {
     const resolved = await resolveTask(task, defaults, '/base');
     expect(resolved.graders[0].setup).toBe('npm install -g typescript');
   });
+
+  it('fills placeholders in referenced files for a variant', async () => {
+    const task: EvalTaskConfig = {
+      name: 'fix-app.js',
+      variant: { task: 'fix-{{file}}', values: { file: 'app.js' } },
+      instruction: 'instructions/fix.md',
+      graders: [{ type: 'llm_rubric', rubric: 'rubric.md', weight: 1.0 }],
+    };
+
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue('Check {{file}} and {{ other }}' as any);
+
+    const resolved = await resolveTask(task, defaults, '/base');
+    expect(resolved.variant).toEqual(task.variant);
+    expect(resolved.instruction).toBe('Check app.js and {{ other }}');
+    expect(resolved.graders[0].rubric).toBe('Check app.js and {{ other }}');
+  });
 });
@@ -6,6 +6,9 @@ vi.mock('fs-extra', () => ({
   readFile: vi.fn(),
   ensureDir: vi.fn(),
   writeJSON: vi.fn(),
+  pathExists: vi.fn(),
+  appendFile: vi.fn(),
+  remove: vi.fn(),
 }));
 
 vi.mock('./graders', () => ({
@@ -18,6 +21,10 @@ import { BaseAgent, EnvironmentProvider, GraderResult } from '../src/types';
 
 const mockEnsureDir = vi.mocked(fs.ensureDir);
 const mockWriteJSON = vi.mocked(fs.writeJSON);
+const mockPathExists = vi.mocked(fs.pathExists);
+const mockReadFile = vi.mocked(fs.readFile);
+const mockAppendFile = vi.mocked(fs.appendFile);
+const mockRemove = vi.mocked(fs.remove);
 
 /** Standard eval options used across tests */
 function makeEvalOpts(overrides?: Partial<EvalRunOptions>): EvalRunOptions {
@@ -78,6 +85,7 @@ describe('EvalRunner', () => {
     expect(report.trials).toHaveLength(1);
     expect(report.trials[0].trial_id).toBe(1);
     expect(report.trials[0].reward).toBe(1.0);
+    expect(report.confidence?.pass_rate.upper).toBe(1.0);
     expect(report.trials[0].session_log.length).toBeGreaterThan(0);
     expect(provider.prepare).toHaveBeenCalled();
     expect(provider.setup).toHaveBeenCalled();
@@ -96,6 +104,7 @@ describe('EvalRunner', () => {
 
     expect(report.trials[0].reward).toBe(0);
     expect(report.trials[0].grader_results).toEqual([]);
+    expect(report.trials[0].error).toBe('Agent crashed');
   });
 
   it('saves report to logDir when provided', async () => {
@@ -119,6 +128,12 @@ describe('EvalRunner', () => {
     expect(writtenPath).toContain('.json');
   });
 
+  it('redacts env secret values from error messages', () => {
+    const runner = new EvalRunner(makeMockProvider());
+    expect(runner.redact('auth failed for MY_SECRET_VALUE_123 (key)', { SECRET: 'MY_SECRET_VALUE_123', SHORT: 'key' }))
+      .toBe('auth failed for [REDACTED] (key)');
+  });
+
   it('sanitizes secrets from report when env passed', async () => {
     const provider = makeMockProvider();
     (provider.runCommand as any).mockResolvedValue({
@@ -272,4 +287,384 @@ describe('EvalRunner', () => {
 
     expect(report.trials[0].grader_results).toHaveLength(3);
   });
+
+  it('runs a baseline eval with and without skills on one prepared image', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockImplementation(async () => {
+        // With-skill trials pass, baseline trials fail
+        const skills = (provider.setup as any).mock.calls.at(-1)[1];
+        return {
+          grader_type: 'deterministic', score: skills.length > 0 ? 1.0 : 0.5, weight: 1.0, details: 'ok',
+        };
+      }),
+    });
+
+    const runner = new EvalRunner(provider, '/logs');
+    const result = await runner.runBaselineEval(agent, '/task', ['/skills/my-skill'], makeEvalOpts(), 2);
+
+    expect(provider.prepare).toHaveBeenCalledTimes(1);
+    expect(provider.teardown).toHaveBeenCalledTimes(1);
+    expect(provider.setup).toHaveBeenCalledTimes(4);
+    expect(result.with_skill.skills_used).toEqual(['my-skill']);
+    expect(result.with_skill.pass_rate).toBe(1.0);
+    expect(result.without_skill.skills_used).toEqual([]);
+    expect(result.without_skill.baseline).toBe(true);
+    expect(result.without_skill.pass_rate).toBe(0.5);
+    expect(result.normalized_gain).toBe(1.0);
+
+    const writtenPaths = mockWriteJSON.mock.calls.map(c => (c as any[])[0] as string);
+    expect(writtenPaths).toHaveLength(2);
+    expect(writtenPaths[1]).toContain('task_baseline_');
+  });
+
+  it('persists structured agent metadata on trials and summarizes it per report', async () => {
+    const provider = makeMockProvider();
+    let call = 0;
+    const agent = {
+      run: vi.fn().mockImplementation(async () => {
+        call++;
+        return {
+          output: 'done',
+          raw_output: '{"type":"result"} SECRET_TOKEN_VALUE',
+          skills_triggered: call === 1 ? [{ name: 'my-skill', source: 'file_read' }] : [],
+          tools_used: call === 1 ? ['Read', 'Bash'] : ['Bash'],
+          num_turns: 3,
+          cost_usd: 0.02,
+        };
+      }),
+    } as any as BaseAgent;
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider, '/logs');
+    const report = await runner.runEval(agent, '/task', [], makeEvalOpts(), 2, { TOKEN: 'SECRET_TOKEN_VALUE' });
+
+    expect(report.trials[0].skills_triggered).toEqual([{ name: 'my-skill', source: 'file_read' }]);
+    expect(report.trials[0].tools_used).toEqual(['Read', 'Bash']);
+    expect(report.trials[0].num_turns).toBe(3);
+    expect(report.trials[0].cost_usd).toBe(0.02);
+    expect(report.usage?.cost_usd).toBeCloseTo(0.04);
+    expect(report.trials[0].raw_output).toContain('"type":"result"');
+    expect(report.skill_trigger_rate).toBe(0.5);
+    expect(report.tool_usage).toEqual([{ name: 'Bash', trials: 2 }, { name: 'Read', trials: 1 }]);
+
+    const written = (mockWriteJSON.mock.calls[0] as any[])[1];
+    expect(written.trials[0].raw_output).not.toContain('SECRET_TOKEN_VALUE');
+  });
+
+  it('redacts secrets from the commands quoted in skill trigger details', async () => {
+    const provider = makeMockProvider();
+    const agent = {
+      run: vi.fn().mockResolvedValue({
+        output: 'done',
+        skills_triggered: [{ name: 'my-skill', source: 'file_read', details: 'Command referenced skill: TOKEN=SECRET_TOKEN_VALUE cat .agents/skills/my-skill/SKILL.md' }],
+        tools_used: ['Bash'],
+      }),
+    } as any as BaseAgent;
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider, '/logs');
+    await runner.runEval(agent, '/task', [], makeEvalOpts(), 1, { TOKEN: 'SECRET_TOKEN_VALUE' });
+
+    const written = (mockWriteJSON.mock.calls[0] as any[])[1];
+    expect(JSON.stringify(written)).not.toContain('SECRET_TOKEN_VALUE');
+    expect(written.trials[0].skills_triggered[0].details).toBe('Command referenced skill: TOKEN=[REDACTED] cat .agents/skills/my-skill/SKILL.md');
+  });
+
+  it('injects distractor skills and reports selection accuracy', async () => {
+    const provider = makeMockProvider();
+    let call = 0;
+    const agent = {
+      run: vi.fn().mockImplementation(async () => {
+        call++;
+        return {
+          output: 'done',
+          skills_triggered: call === 1
+            ? [{ name: 'my-skill', source: 'tool_use' }]
+            : [{ name: 'other-skill', source: 'file_read' }],
+          tools_used: [],
+        };
+      }),
+    } as any as BaseAgent;
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider);
+    const opts = makeEvalOpts({ distractorSkills: ['/distractors/other-skill'] });
+    const report = await runner.runEval(agent, '/task', ['/skills/my-skill'], opts, 2);
+
+    const injected = ['/skills/my-skill', '/distractors/other-skill'];
+    expect((provider.prepare as any).mock.calls[0][1]).toEqual(injected);
+    expect((provider.setup as any).mock.calls[0][1]).toEqual(injected);
+    expect(report.skills_used).toEqual(['my-skill']);
+    expect(report.distractor_skills).toEqual(['other-skill']);
+    expect(report.skill_selection).toMatchObject({ precision: 0.5, recall: 0.5, accuracy: 0.5, trials: 2 });
+  });
+
+  it('keeps distractors in the no-skill baseline run', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider);
+    const opts = makeEvalOpts({ distractorSkills: ['/distractors/other-skill'] });
+    const result = await runner.runBaselineEval(agent, '/task', ['/skills/my-skill'], opts, 1);
+
+    const setupSkills = (provider.setup as any).mock.calls.map((c: any[]) => c[1]);
+    expect(setupSkills).toEqual([['/skills/my-skill', '/distractors/other-skill'], ['/distractors/other-skill']]);
+    expect(result.without_skill.skills_used).toEqual([]);
+    expect(result.without_skill.skill_selection).toBeUndefined();
+  });
+
+  it('prefers agent-reported token usage over estimates', async () => {
+    const provider = makeMockProvider();
+    const agent = {
+      run: vi.fn().mockResolvedValue({
+        output: 'done', skills_triggered: [], tools_used: [], input_tokens: 5000, output_tokens: 700,
+      }),
+    } as any as BaseAgent;
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider);
+    const report = await runner.runEval(agent, '/task', [], makeEvalOpts(), 1);
+
+    expect(report.trials[0].input_tokens).toBe(5000);
+    expect(report.trials[0].output_tokens).toBe(700);
+    expect(report.trials[0].tokens_estimated).toBe(false);
+    expect(report.usage).toEqual({ input_tokens: 5000, output_tokens: 700, tokens_estimated: false });
+  });
+
+  it('checkpoints each trial and removes the checkpoint once the report is saved', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent('uses SECRET_TOKEN_VALUE');
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider, '/logs');
+    const opts = makeEvalOpts({ checkpoint: '/out/checkpoints/task_abc.jsonl' });
+    await runner.runEval(agent, '/task', [], opts, 2, { TOKEN: 'SECRET_TOKEN_VALUE' });
+
+    expect(mockAppendFile).toHaveBeenCalledTimes(2);
+    const line = String((mockAppendFile.mock.calls[0] as any[])[1]);
+    expect(JSON.parse(line).trial_id).toBe(1);
+    expect(line).not.toContain('SECRET_TOKEN_VALUE');
+    expect(mockRemove).toHaveBeenLastCalledWith('/out/checkpoints/task_abc.jsonl');
+  });
+
+  it('appends checkpoint lines of parallel trials one at a time', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    let writing = 0;
+    let overlapped = false;
+    mockAppendFile.mockImplementation((async () => {
+      overlapped ||= writing > 0;
+      writing++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      writing--;
+    }) as any);
+
+    const runner = new EvalRunner(provider);
+    const opts = makeEvalOpts({ checkpoint: '/out/checkpoints/task_abc.jsonl' });
+    await runner.runEval(agent, '/task', [], opts, 4, undefined, 4);
+
+    expect(mockAppendFile).toHaveBeenCalledTimes(4);
+    expect(overlapped).toBe(false);
+  });
+
+  it('resumes only the trials missing from the checkpoint', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+    const done = {
+      trial_id: 2, reward: 0.0, grader_results: [], duration_ms: 10, n_commands: 0,
+      input_tokens: 0, output_tokens: 0, session_log: [],
+    };
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadFile.mockResolvedValue((JSON.stringify(done) + '\n{"trial_id": 3, "rew') as any);
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider);
+    const opts = makeEvalOpts({ checkpoint: '/out/checkpoints/task_abc.jsonl', resume: true });
+    const report = await runner.runEval(agent, '/task', [], opts, 3);
+
+    expect(agent.run).toHaveBeenCalledTimes(2);
+    expect(report.trials.map(t => t.trial_id)).toEqual([1, 2, 3]);
+    expect(report.trials.map(t => t.reward)).toEqual([1.0, 0.0, 1.0]);
+    expect(mockAppendFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops adaptive runs once the pass rate is clearly below or above threshold', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    const grade = vi.fn().mockResolvedValue({
+      grader_type: 'deterministic', score: 0.0, weight: 1.0, details: 'fail',
+    });
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({ grade });
+
+    const runner = new EvalRunner(provider);
+    const failing = await runner.runEval(agent, '/task', [], makeEvalOpts({
+      adaptive: { threshold: 0.8, minTrials: 5 },
+    }), 30);
+
+    // 0/5 has a Wilson upper bound of ~43%, well below 80%
+    expect(failing.trials).toHaveLength(5);
+    expect(failing.adaptive).toEqual({ threshold: 0.8, min_trials: 5, stopped: 'below_threshold' });
+
+    grade.mockResolvedValue({ grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok' });
+    const passing = await runner.runEval(agent, '/task', [], makeEvalOpts({
+      adaptive: { threshold: 0.5, minTrials: 2 },
+    }), 30);
+
+    // n/n clears a 50% lower bound from n = 4
+    expect(passing.trials).toHaveLength(4);
+    expect(passing.adaptive?.stopped).toBe('above_threshold');
+  });
+
+  it('runs adaptive trials up to the cap while the outcome is undecided', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    let callCount = 0;
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockImplementation(async () => ({
+        grader_type: 'deterministic', score: ++callCount % 2, weight: 1.0, details: 'test',
+      })),
+    });
+
+    const runner = new EvalRunner(provider);
+    const report = await runner.runEval(agent, '/task', [], makeEvalOpts({
+      adaptive: { threshold: 0.5, minTrials: 4 },
+    }), 8, undefined, 2);
+
+    expect(report.trials).toHaveLength(8);
+    expect(report.trials.map(t => t.trial_id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(report.adaptive?.stopped).toBe('max_trials');
+  });
+
+  it('applies pass_threshold and fails trials on required graders', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockImplementation(type => ({
+      grade: vi.fn().mockResolvedValue(type === 'deterministic'
+        ? { grader_type: 'deterministic', score: 0.8, weight: 0.7, details: '4/5 checks' }
+        : { grader_type: 'llm_rubric', score: 1.0, weight: 0.3, details: 'great' }),
+    }));
+
+    const runner = new EvalRunner(provider);
+    const graders: EvalRunOptions['graders'] = [
+      { type: 'deterministic', run: 'echo ok', weight: 0.7 },
+      { type: 'llm_rubric', rubric: 'be good', weight: 0.3 },
+    ];
+
+    // Weighted reward 0.86 clears 0.85 but not 0.9
+    const lenient = await runner.runEval(agent, '/task', [], makeEvalOpts({ graders, passThreshold: 0.85 }), 1);
+    expect(lenient.trials[0].passed).toBe(true);
+    expect(lenient.pass_threshold).toBe(0.85);
+    const strict = await runner.runEval(agent, '/task', [], makeEvalOpts({ graders, passThreshold: 0.9 }), 1);
+    expect(strict.trials[0].passed).toBe(false);
+    expect(strict.pass_at_k).toBe(0);
+
+    // A required grader below its own threshold zeroes the reward
+    const gated = await runner.runEval(agent, '/task', [], makeEvalOpts({
+      graders: [{ ...graders[0], required: true, pass_threshold: 1.0 }, graders[1]],
+      passThreshold: 0.5,
+    }), 1);
+    expect(gated.trials[0].reward).toBe(0);
+    expect(gated.trials[0].passed).toBe(false);
+    expect(gated.trials[0].grader_results[0]).toMatchObject({ required: true, pass_threshold: 1.0, score: 0.8 });
+  });
+
+  it('links the report to its run manifest and agent', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent();
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider, '/tmp/logs');
+    const report = await runner.runEval(agent, '/task', [], makeEvalOpts({ runId: 'run-1', agent: 'claude', model: 'claude-sonnet-4-5' }), 1);
+
+    expect(report).toMatchObject({ run_id: 'run-1', agent: 'claude', model: 'claude-sonnet-4-5' });
+    expect(mockWriteJSON.mock.calls[0][1]).toMatchObject({ run_id: 'run-1', agent: 'claude', model: 'claude-sonnet-4-5' });
+  });
+
+  it('leaves skill metadata unset for plain-text agents', async () => {
+    const provider = makeMockProvider();
+    const agent = makeMockAgent('plain output');
+
+    const gradersModule = await import('../src/graders/index');
+    vi.spyOn(gradersModule, 'getGrader').mockReturnValue({
+      grade: vi.fn().mockResolvedValue({
+        grader_type: 'deterministic', score: 1.0, weight: 1.0, details: 'ok',
+      }),
+    });
+
+    const runner = new EvalRunner(provider);
+    const report = await runner.runEval(agent, '/task', [], makeEvalOpts(), 1);
+
+    expect(report.trials[0].skills_triggered).toBeUndefined();
+    expect(report.trials[0].tokens_estimated).toBe(true);
+    expect(report.trials[0].output_tokens).toBe(Math.ceil('plain output'.length / 4));
+    expect(report.skill_trigger_rate).toBeUndefined();
+    expect(report.tool_usage).toBeUndefined();
+  });
 });
@@ -1,17 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { DeterministicGrader, LLMGrader, getGrader } from '../src/graders/index';
+import { DeterministicGrader, LLMGrader, SkillTriggeredGrader, getGrader } from '../src/graders/index';
 import { GraderConfig, EnvironmentProvider } from '../src/types';
 
-// Mock fs-extra for LLMGrader rubric loading
+// Mock fs-extra for LLMGrader rubric and SkillTriggeredGrader expectations loading
 vi.mock('fs-extra', () => ({
   pathExists: vi.fn(),
   readFile: vi.fn(),
+  readJSON: vi.fn(),
 }));
 
 import * as fs from 'fs-extra';
 
 const mockPathExists = vi.mocked(fs.pathExists);
 const mockReadFile = vi.mocked(fs.readFile);
+const mockReadJSON = vi.mocked(fs.readJSON);
 
 beforeEach(() => {
   vi.resetAllMocks();
@@ -52,9 +54,30 @@ describe('DeterministicGrader', () => {
     const result = await grader.grade('/workspace', provider, baseConfig, '/task', []);
 
     expect(result.score).toBe(0.5);
-    expect(result.details).toContain('1/2 passed');
-    expect(result.details).toContain('✓ check1');
-    expect(result.details).toContain('✗ check2');
+    expect(result.details).toBe('1/2 passed');
+    expect(result.checks).toEqual([
+      { name: 'check1', passed: true, message: 'ok' },
+      { name: 'check2', passed: false, message: 'failed' },
+    ]);
+  });
+
+  it('omits checks when the grader reports none', async () => {
+    const provider = makeProvider('{"score": 1.0, "details": "ok"}');
+    const result = await grader.grade('/workspace', provider, baseConfig, '/task', []);
+
+    expect(result.checks).toBeUndefined();
+  });
+
+  it('drops malformed check entries', async () => {
+    const json = JSON.stringify({
+      score: 1.0,
+      details: 'ok',
+      checks: [{ name: 'valid', passed: true }, 'bogus', { passed: true }],
+    });
+    const provider = makeProvider(json);
+    const result = await grader.grade('/workspace', provider, baseConfig, '/task', []);
+
+    expect(result.checks).toEqual([{ name: 'valid', passed: true, message: '' }]);
   });
 
   it('returns score 0 when no JSON in stdout', async () => {
@@ -335,7 +358,14 @@ describe('LLMGrader', () => {
       { type: 'agent_start', instruction: 'Do something', timestamp: '' },
       { type: 'command', command: 'ls', stdout: 'file.txt', stderr: '', exitCode: 0, timestamp: '' },
       { type: 'agent_result', output: 'Done!', timestamp: '' },
-      { type: 'grader', grader_result: { grader_type: 'deterministic', score: 1.0, weight: 1, details: 'passed' }, timestamp: '' },
+      {
+        type: 'grader',
+        grader_result: {
+          grader_type: 'deterministic', score: 1.0, weight: 1, details: 'passed',
+          checks: [{ name: 'file-exists', passed: true, message: 'found' }],
+        },
+        timestamp: '',
+      },
     ];
 
     const env = { GEMINI_API_KEY: 'test-key' };
@@ -346,11 +376,86 @@ describe('LLMGrader', () => {
     expect(prompt).toContain('$ ls');
     expect(prompt).toContain('Done!');
     expect(prompt).toContain('deterministic');
+    expect(prompt).toContain('✓ file-exists: found');
 
     globalThis.fetch = originalFetch;
   });
 });
 
+describe('SkillTriggeredGrader', () => {
+  const grader = new SkillTriggeredGrader();
+  const config: GraderConfig = { type: 'skill_triggered', weight: 1.0, expectations: 'expectations/skills.json' };
+  const provider = makeProvider('');
+
+  function sessionWith(skills?: Array<{ name: string; source: string }>) {
+    return [{
+      type: 'agent_result',
+      timestamp: '',
+      output: 'done',
+      skills_triggered: skills?.map(s => ({ ...s, timestamp: '', details: '' })),
+    }];
+  }
+
+  function expecting(expectations: object) {
+    mockPathExists.mockResolvedValue(true as any);
+    mockReadJSON.mockResolvedValue(expectations);
+  }
+
+  it('returns score 0 when the agent does not report skill usage', async () => {
+    mockPathExists.mockResolvedValue(false as any);
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith(undefined));
+    expect(result.score).toBe(0);
+    expect(result.details).toContain('did not report skill usage');
+  });
+
+  it('passes when any skill is triggered and none are required', async () => {
+    mockPathExists.mockResolvedValue(false as any);
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith([{ name: 'lint', source: 'tool_use' }]));
+    expect(result.score).toBe(1);
+    expect(result.grader_type).toBe('skill_triggered');
+    expect(result.checks).toBeUndefined();
+  });
+
+  it('scores the fraction of required skills triggered', async () => {
+    expecting({ skills: ['lint', 'format'] });
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith([{ name: 'lint', source: 'file_read' }]));
+    expect(result.score).toBe(0.5);
+    expect(result.checks).toEqual([
+      { name: 'triggered:lint', passed: true, message: 'lint was triggered' },
+      { name: 'triggered:format', passed: false, message: 'format was not triggered' },
+    ]);
+  });
+
+  it('ignores triggers below min_source', async () => {
+    expecting({ skills: ['lint'], min_source: 'tool_use' });
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith([{ name: 'lint', source: 'file_read' }]));
+    expect(result.score).toBe(0);
+  });
+
+  it('does not count init_list triggers by default', async () => {
+    mockPathExists.mockResolvedValue(false as any);
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith([{ name: 'lint', source: 'init_list' }]));
+    expect(result.score).toBe(0);
+    expect(result.details).toBe('No skill was triggered');
+  });
+
+  it('scores 0 when a forbidden skill is triggered', async () => {
+    expecting({ skills: ['lint'], forbidden_skills: ['deploy'] });
+    const result = await grader.grade('/ws', provider, config, '/task', sessionWith([
+      { name: 'lint', source: 'tool_use' },
+      { name: 'deploy', source: 'tool_use' },
+    ]));
+    expect(result.score).toBe(0);
+    expect(result.checks).toContainEqual({ name: 'not-triggered:deploy', passed: false, message: 'deploy was triggered' });
+  });
+
+  it('reads expectations from the configured path', async () => {
+    expecting({});
+    await grader.grade('/ws', provider, { ...config, expectations: 'expectations/skills_1.json' }, '/task', sessionWith([]));
+    expect(mockReadJSON).toHaveBeenCalledWith('/task/expectations/skills_1.json');
+  });
+});
+
 describe('getGrader', () => {
   it('returns DeterministicGrader for "deterministic"', () => {
     const grader = getGrader('deterministic');
@@ -362,6 +467,11 @@ describe('getGrader', () => {
     expect(grader).toBeInstanceOf(LLMGrader);
   });
 
+  it('returns SkillTriggeredGrader for "skill_triggered"', () => {
+    const grader = getGrader('skill_triggered');
+    expect(grader).toBeInstanceOf(SkillTriggeredGrader);
+  });
+
   it('throws for unknown grader type', () => {
     expect(() => getGrader('unknown')).toThrow('Unknown grader type');
   });
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { createRunId, hashDirectories, hashFile, writeManifest, skillgradeVersion } from '../src/core/manifest';
+
+describe('run manifest helpers', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `skillgrade-manifest-test-${Date.now()}`);
+    await fsExtra.ensureDir(path.join(tempDir, 'skill', 'references'));
+    await fsExtra.writeFile(path.join(tempDir, 'skill', 'SKILL.md'), '# Skill');
+    await fsExtra.writeFile(path.join(tempDir, 'skill', 'references', 'api.md'), 'api');
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(tempDir); } catch {}
+  });
+
+  it('creates sortable unique run ids', () => {
+    const id = createRunId(new Date('2026-01-02T03:04:05.678Z'));
+    expect(id).toMatch(/^2026-01-02T03-04-05-678Z_[0-9a-f]{6}$/);
+    expect(createRunId()).not.toBe(createRunId());
+  });
+
+  it('hashes skill content so any file edit changes the hash', async () => {
+    const skill = path.join(tempDir, 'skill');
+    const before = await hashDirectories([skill]);
+    expect(await hashDirectories([skill])).toBe(before);
+
+    await fsExtra.writeFile(path.join(skill, 'references', 'api.md'), 'api v2');
+    expect(await hashDirectories([skill])).not.toBe(before);
+  });
+
+  it('ignores node_modules when hashing', async () => {
+    const skill = path.join(tempDir, 'skill');
+    const before = await hashDirectories([skill]);
+    await fsExtra.outputFile(path.join(skill, 'node_modules', 'dep', 'index.js'), 'x');
+    expect(await hashDirectories([skill])).toBe(before);
+  });
+
+  it('returns undefined for files that cannot be read', async () => {
+    expect(await hashFile(path.join(tempDir, 'missing.yaml'))).toBeUndefined();
+    expect(await hashFile(path.join(tempDir, 'skill', 'SKILL.md'))).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('writes the manifest to runs/<run_id>.json', async () => {
+    const file = await writeManifest(tempDir, {
+      run_id: 'r1',
+      started_at: '2026-01-01T00:00:00.000Z',
+      skillgrade_version: skillgradeVersion(),
+      options: { trials: 5 },
+      skills: ['skill'],
+      tasks: [{ task: 't', agent: 'claude', provider: 'local', trials: 5, status: 'completed', pass_rate: 1 }],
+    });
+
+    expect(file).toBe(path.join(tempDir, 'runs', 'r1.json'));
+    expect((await fsExtra.readJSON(file)).tasks[0].agent).toBe('claude');
+    expect(skillgradeVersion()).toBe(require('../package.json').version);
+  });
+});
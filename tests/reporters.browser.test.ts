@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { exportHtmlReport } from '../src/reporters/browser';
+import { loadReports } from '../src/analytics/reports';
+
+describe('exportHtmlReport', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `skillgrade-export-test-${Date.now()}`);
+    await fsExtra.ensureDir(path.join(tempDir, 'results'));
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(tempDir); } catch {}
+  });
+
+  it('embeds every report and run manifest in a copy of the viewer', async () => {
+    const report = {
+      task: 'fix-lint',
+      pass_rate: 1,
+      trials: [{ trial_id: 1, reward: 1, session_log: [{ type: 'agent_result', output: '</script><b>done</b>' }] }],
+    };
+    await fsExtra.writeJSON(path.join(tempDir, 'results', 'fix-lint_2026-01-01T00-00-00.json'), report);
+    await fsExtra.writeFile(path.join(tempDir, 'results', 'broken.json'), '{');
+    await fsExtra.outputJSON(path.join(tempDir, 'runs', 'r1.json'), { run_id: 'r1', tasks: [] });
+
+    const outFile = path.join(tempDir, 'out', 'report.html');
+    expect(await exportHtmlReport(path.join(tempDir, 'results'), outFile)).toBe(1);
+
+    const html = await fsExtra.readFile(outFile, 'utf-8');
+    const match = html.match(/window\.SKILLGRADE_REPORTS = (.*); window\.SKILLGRADE_RUNS = (.*);<\/script>/);
+    expect(match).not.toBeNull();
+    expect(JSON.parse(match![1])).toEqual([{ file: 'fix-lint_2026-01-01T00-00-00.json', ...report }]);
+    expect(JSON.parse(match![2])).toEqual({ r1: { run_id: 'r1', tasks: [] } });
+    // Report content can't terminate the embedding script early
+    expect(match![1]).not.toContain('</script>');
+    expect(html).toContain('const EMBEDDED = window.SKILLGRADE_REPORTS;');
+  });
+});
+
+describe('viewer groupByRun', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = path.join(os.tmpdir(), `skillgrade-viewer-test-${Date.now()}`);
+    await fsExtra.ensureDir(dir);
+  });
+
+  afterEach(async () => {
+    try { await fsExtra.remove(dir); } catch {}
+  });
+
+  // The viewer is a single HTML file; evaluate its grouping function on its own
+  async function viewerGroupByRun() {
+    const html = await fsExtra.readFile(path.join(__dirname, '..', 'src', 'viewer.html'), 'utf-8');
+    const source = html.match(/\n    function groupByRun[\s\S]*?\n    }\n/)![0];
+    return new Function(`${source}; return groupByRun;`)() as (reports: any[], runs: Record<string, any>) => Array<{ key: string; reports: any[] }>;
+  }
+
+  it('shows one group per run, newest run first, for two tasks and two runs', async () => {
+    const report = (task: string, runId: string, extra: object = {}) => ({ task, run_id: runId, pass_rate: 1, trials: [], ...extra });
+    await fsExtra.writeJSON(path.join(dir, 'a_2026-01-01T10-00-00-000Z.json'), report('a', 'r1'));
+    await fsExtra.writeJSON(path.join(dir, 'b_baseline_2026-01-01T10-01-00-000Z.json'), report('b', 'r1', { baseline: true }));
+    await fsExtra.writeJSON(path.join(dir, 'b_2026-01-01T10-02-00-000Z.json'), report('b', 'r1'));
+    await fsExtra.writeJSON(path.join(dir, 'a_2026-01-02T10-00-00-000Z.json'), report('a', 'r2'));
+    await fsExtra.writeJSON(path.join(dir, 'b_2026-01-02T10-01-00-000Z.json'), report('b', 'r2'));
+    await fsExtra.writeJSON(path.join(dir, 'old_2025-12-01T00-00-00-000Z.json'), { task: 'old', pass_rate: 0, trials: [] });
+
+    const groupByRun = await viewerGroupByRun();
+    // The preview server sends reports newest first
+    const reports = (await loadReports(dir)).reverse();
+    const groups = groupByRun(reports, { r1: { started_at: '2026-01-01T09:59:00.000Z' } });
+
+    expect(groups.map(g => g.key)).toEqual(['r2', 'r1', '']);
+    expect(groups[0].reports.map(r => r.task)).toEqual(['b', 'a']);
+    expect(groups[1].reports.map(r => r.file)).toEqual([
+      'b_2026-01-01T10-02-00-000Z.json',
+      'b_baseline_2026-01-01T10-01-00-000Z.json',
+      'a_2026-01-01T10-00-00-000Z.json',
+    ]);
+  });
+
+  it('orders runs by manifest start time even when reports arrive out of order', async () => {
+    const groupByRun = await viewerGroupByRun();
+    const reports = [
+      { task: 'a', run_id: 'r1', file: 'a_1.json' },
+      { task: 'a', run_id: 'r2', file: 'a_2.json' },
+      { task: 'b', run_id: 'r1', file: 'b_1.json' },
+      { task: 'b', run_id: 'r2', file: 'b_2.json' },
+    ];
+    const runs = { r1: { started_at: '2026-01-01T00:00:00.000Z' }, r2: { started_at: '2026-01-02T00:00:00.000Z' } };
+    expect(groupByRun(reports, runs).map(g => [g.key, g.reports.map(r => r.task)])).toEqual([
+      ['r2', ['a', 'b']],
+      ['r1', ['a', 'b']],
+    ]);
+  });
+});
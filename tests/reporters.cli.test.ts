@@ -145,4 +145,56 @@ describe('runCliPreview', () => {
     // Should not throw
     await runCliPreview(tempDir);
   });
+
+  it('renders per-check pass rates aggregated across trials', async () => {
+    const checks = (passed: boolean) => [
+      { name: 'file-created', passed: true, message: 'exists' },
+      { name: 'content-correct', passed, message: passed ? 'ok' : 'wrong' },
+    ];
+    await fsExtra.writeJSON(path.join(tempDir, 'checks.json'), {
+      task: 'checks-task',
+      pass_rate: 0.75,
+      trials: [true, false].map((passed, i) => ({
+        trial_id: i + 1, reward: passed ? 1.0 : 0.5, duration_ms: 1000, n_commands: 1,
+        input_tokens: 0, output_tokens: 0,
+        grader_results: [{ grader_type: 'deterministic', score: passed ? 1.0 : 0.5, weight: 1.0, details: 'x', checks: checks(passed) }],
+      })),
+      skills_used: [],
+    });
+
+    const { runCliPreview } = await import('../src/reporters/cli');
+    const logSpy = vi.spyOn(console, 'log');
+
+    await runCliPreview(tempDir);
+
+    const lines = logSpy.mock.calls.map(c => String(c[0]));
+    const created = lines.find(l => l.includes('file-created'))!;
+    const content = lines.find(l => l.includes('content-correct'))!;
+    expect(created).toContain('2/2');
+    expect(created).toContain('100%');
+    expect(content).toContain('1/2');
+    expect(content).toContain('50%');
+  });
+
+  it('marks estimated tokens and shows agent-reported cost', async () => {
+    await fsExtra.writeJSON(path.join(tempDir, 'cost.json'), {
+      task: 'cost-task',
+      pass_rate: 1.0,
+      trials: [
+        { trial_id: 1, reward: 1.0, duration_ms: 1000, n_commands: 1, input_tokens: 1500, output_tokens: 500, tokens_estimated: false, cost_usd: 0.25, grader_results: [] },
+        { trial_id: 2, reward: 1.0, duration_ms: 1000, n_commands: 1, input_tokens: 10, output_tokens: 5, tokens_estimated: true, grader_results: [] },
+      ],
+      skills_used: [],
+    });
+
+    const { runCliPreview } = await import('../src/reporters/cli');
+    const logSpy = vi.spyOn(console, 'log');
+
+    await runCliPreview(tempDir);
+
+    const lines = logSpy.mock.calls.map(c => String(c[0]));
+    expect(lines.find(l => l.includes('Total Tokens'))).toContain('~2.0k');
+    expect(lines.find(l => l.includes('Total Cost'))).toContain('$0.2500');
+    expect(lines.some(l => l.includes('$0.2500') && l.includes('PASS'))).toBe(true);
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { formatJUnit } from '../src/reporters/junit';
+import { EvalReport, TrialResult } from '../src/types';
+
+function trial(overrides: Partial<TrialResult>): TrialResult {
+  return {
+    trial_id: 1,
+    reward: 1,
+    passed: true,
+    grader_results: [{ grader_type: 'deterministic', score: 1, weight: 1, details: 'ok' }],
+    duration_ms: 1500,
+    n_commands: 1,
+    input_tokens: 10,
+    output_tokens: 20,
+    session_log: [],
+    ...overrides,
+  };
+}
+
+function report(trials: TrialResult[]): EvalReport {
+  return {
+    task: 'fix-lint',
+    pass_rate: 0.5,
+    pass_at_k: 0.5,
+    pass_pow_k: 0.25,
+    pass_threshold: 0.5,
+    trials,
+    skills_used: ['superlint'],
+  };
+}
+
+describe('formatJUnit', () => {
+  it('writes a testsuite per task and a testcase per trial', () => {
+    const xml = formatJUnit([report([
+      trial({ trial_id: 1 }),
+      trial({ trial_id: 2, reward: 0, passed: false, grader_results: [{
+        grader_type: 'deterministic', score: 0, weight: 1, details: '1/2 checks passed',
+        checks: [
+          { name: 'lint-clean', passed: false, message: '3 errors remain' },
+          { name: 'file-exists', passed: true, message: 'ok' },
+        ],
+      }] }),
+    ])]);
+
+    expect(xml).toContain('<testsuites name="skillgrade" tests="2" failures="1" errors="0" time="3.000">');
+    expect(xml).toContain('<testsuite name="fix-lint" tests="2" failures="1" errors="0" time="3.000">');
+    expect(xml).toContain('<property name="pass_rate" value="0.5"/>');
+    expect(xml).toContain('<testcase name="trial 1" classname="skillgrade.fix-lint" time="1.500">');
+    expect(xml).toContain('<failure message="reward 0.00 below 0.50" type="failure">deterministic: 0.00 &lt; 0.50 — 1/2 checks passed\n  ✗ lint-clean: 3 errors remain</failure>');
+    expect(xml).not.toContain('file-exists');
+  });
+
+  it('labels suites with agent and model when a task ran in several combinations', () => {
+    const xml = formatJUnit([
+      { ...report([trial({})]), agent: 'claude', model: 'claude-sonnet-4-5' },
+      { ...report([trial({})]), agent: 'gemini' },
+    ]);
+
+    expect(xml).toContain('<testsuite name="fix-lint [claude claude-sonnet-4-5]"');
+    expect(xml).toContain('<testsuite name="fix-lint [gemini]"');
+    expect(xml).toContain('<property name="model" value="claude-sonnet-4-5"/>');
+    expect(xml).toContain('classname="skillgrade.fix-lint [gemini]"');
+  });
+
+  it('reports trials that crashed before grading as errors', () => {
+    const xml = formatJUnit([report([trial({
+      reward: 0,
+      passed: false,
+      grader_results: [],
+      error: 'Agent timed out',
+      session_log: [{ type: 'reward', timestamp: 't', value: 0, output: 'Agent timed out\ndiagnostics' }],
+    })])]);
+
+    expect(xml).toContain('errors="1"');
+    expect(xml).toContain('<error message="Agent timed out" type="error">Agent timed out\ndiagnostics</error>');
+  });
+
+  it('reports graded trials without grader results as failures, not errors', () => {
+    const xml = formatJUnit([report([trial({ reward: 0, passed: false, grader_results: [] })])]);
+
+    expect(xml).toContain('<testsuite name="fix-lint" tests="1" failures="1" errors="0"');
+    expect(xml).toContain('<failure message="reward 0.00 below 0.50" type="failure">reward 0.00 below 0.50</failure>');
+    expect(xml).not.toContain('<error');
+  });
+
+  it('reports a task whose evaluation failed as an errored suite', () => {
+    const xml = formatJUnit(
+      [{ ...report([trial({})]), agent: 'claude' }],
+      [{ task: 'fix-lint', agent: 'gemini', error: 'Docker build failed\nstep 3/7' }]
+    );
+
+    expect(xml).toContain('<testsuites name="skillgrade" tests="2" failures="0" errors="1" time="1.500">');
+    expect(xml).toContain('<testsuite name="fix-lint [claude]" tests="1" failures="0" errors="0"');
+    expect(xml).toContain('<testsuite name="fix-lint [gemini]" tests="1" failures="0" errors="1" time="0.000">');
+    expect(xml).toContain('<property name="agent" value="gemini"/>');
+    expect(xml).toContain('<testcase name="evaluation" classname="skillgrade.fix-lint [gemini]" time="0.000">');
+    expect(xml).toContain('<error message="Docker build failed" type="error">Docker build failed\nstep 3/7</error>');
+  });
+
+  it('attaches the session log as escaped system-out', () => {
+    const xml = formatJUnit([report([trial({
+      session_log: [
+        { type: 'command', timestamp: 't', command: 'echo "<ok>"', stdout: '\x1b[31m]]>\x1b[0m', exitCode: 0 },
+      ],
+    })])]);
+
+    expect(xml).toContain('<system-out><![CDATA[[t] $ echo "<ok>"\n[31m]]]]><![CDATA[>[0m\nexit 0]]></system-out>');
+    expect(xml).not.toContain('\x1b');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fsExtra from 'fs-extra';
+import { formatMarkdown, writeMarkdownReport, MarkdownOptions } from '../src/reporters/markdown';
+import { EvalReport } from '../src/types';
+
+const report: EvalReport = {
+  task: 'fix-lint',
+  pass_rate: 0.5,
+  pass_at_k: 1,
+  pass_pow_k: 0.25,
+  pass_threshold: 0.5,
+  confidence: {
+    level: 0.95,
+    pass_rate: { lower: 0.1, upper: 0.9 },
+    pass_at_k: { lower: 0.2, upper: 1 },
+    pass_pow_k: { lower: 0, upper: 0.8 },
+  },
+  trials: [1, 2].map(id => ({
+    trial_id: id,
+    reward: id === 1 ? 1 : 0,
+    passed: id === 1,
+    grader_results: [
+      {
+        grader_type: 'deterministic', score: id === 1 ? 1 : 0, weight: 1, details: '',
+        required: true, pass_threshold: 1,
+        checks: [{ name: 'lint-clean', passed: id === 1, message: '' }],
+      },
+      { grader_type: 'llm_rubric', score: id === 1 ? 0.9 : 0.3, weight: 1, details: `Trial ${id}:\n  followed | the workflow` },
+    ],
+    duration_ms: 1000,
+    n_commands: 1,
+    input_tokens: 0,
+    output_tokens: 0,
+    session_log: [],
+  })),
+  skills_used: ['superlint'],
+};
+
+const opts: MarkdownOptions = { title: 'skillgrade: superlint', threshold: 0.8, passed: r => r.pass_rate >= 0.8 };
+
+describe('formatMarkdown', () => {
+  it('renders a task table with thresholds and status', () => {
+    const md = formatMarkdown([report], opts);
+
+    expect(md).toContain('## skillgrade: superlint');
+    expect(md).toContain('0/1 evals at or above the 80% pass rate threshold.');
+    expect(md).toContain('| fix-lint | 50.0% (10.0%–90.0%) | 100.0% | 25.0% | 2 | ❌ |');
+    expect(md).toContain('<summary><b>fix-lint</b> — 1/2 trials passed (reward ≥ 0.50)</summary>');
+  });
+
+  it('labels rows with agent and model when a task ran in several combinations', () => {
+    const md = formatMarkdown([{ ...report, agent: 'claude', model: 'claude-sonnet-4-5' }, { ...report, agent: 'gemini' }], opts);
+
+    expect(md).toContain('| fix-lint (claude claude-sonnet-4-5) | 50.0%');
+    expect(md).toContain('| fix-lint (gemini) | 50.0%');
+    expect(md).toContain('<summary><b>fix-lint (gemini)</b>');
+  });
+
+  it('renders a failed row with the error for an evaluation that produced no report', () => {
+    const md = formatMarkdown(
+      [{ ...report, agent: 'claude' }],
+      opts,
+      [{ task: 'fix-lint', agent: 'gemini', error: 'Docker build failed: exit 1\nstep 3/7' }]
+    );
+
+    expect(md).toContain('0/2 evals at or above the 80% pass rate threshold.');
+    expect(md).toContain('| fix-lint (claude) | 50.0%');
+    expect(md).toContain('| fix-lint (gemini) | — | — | — | — | ❌ evaluation failed: Docker build failed: exit 1 |');
+    expect(md).not.toContain('<summary><b>fix-lint (gemini)</b>');
+  });
+
+  it('lists grader means, failing checks and condensed LLM reasoning', () => {
+    const md = formatMarkdown([report], opts);
+
+    expect(md).toContain('| deterministic (required) | 0.50 |');
+    expect(md).toContain('| llm_rubric | 0.60 |');
+    expect(md).toContain('- `lint-clean` passed 1/2 (50%)');
+    expect(md).toContain('- trial 2 (0.30): Trial 2: followed \\| the workflow');
+  });
+});
+
+describe('writeMarkdownReport', () => {
+  let tempDir: string;
+  const savedSummary = process.env.GITHUB_STEP_SUMMARY;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `skillgrade-md-test-${Date.now()}`);
+    await fsExtra.ensureDir(tempDir);
+  });
+
+  afterEach(async () => {
+    if (savedSummary === undefined) delete process.env.GITHUB_STEP_SUMMARY;
+    else process.env.GITHUB_STEP_SUMMARY = savedSummary;
+    vi.restoreAllMocks();
+    try { await fsExtra.remove(tempDir); } catch {}
+  });
+
+  it('writes the file and appends to GITHUB_STEP_SUMMARY when set', async () => {
+    const summary = path.join(tempDir, 'step-summary.md');
+    await fsExtra.writeFile(summary, '# earlier step\n');
+    process.env.GITHUB_STEP_SUMMARY = summary;
+
+    const file = path.join(tempDir, 'out', 'summary.md');
+    expect(await writeMarkdownReport([report], file, opts)).toBe(summary);
+
+    const written = await fsExtra.readFile(file, 'utf-8');
+    expect(written).toContain('## skillgrade: superlint');
+    expect(await fsExtra.readFile(summary, 'utf-8')).toBe(`# earlier step\n${written}\n`);
+  });
+
+  it('only writes the file outside GitHub Actions', async () => {
+    delete process.env.GITHUB_STEP_SUMMARY;
+    const file = path.join(tempDir, 'summary.md');
+
+    expect(await writeMarkdownReport([report], file, opts)).toBeUndefined();
+    expect(await fsExtra.pathExists(file)).toBe(true);
+  });
+});
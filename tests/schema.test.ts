@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkEvalYaml, didYouMean, formatIssue, EVAL_SCHEMA } from '../src/core/schema';
+
+const root = path.join(__dirname, '..');
+
+/** Issues as "line:col severity message" for compact assertions */
+function issues(content: string): string[] {
+  return checkEvalYaml(content).issues.map(i => `${i.line}:${i.column} ${i.severity} ${i.message}`);
+}
+
+const TASK = `tasks:
+  - name: fix-lint
+    instruction: fix it
+    graders:
+      - type: deterministic
+        run: ./check.sh
+`;
+
+describe('checkEvalYaml', () => {
+  it('accepts the configs shipped in this repo', () => {
+    for (const file of ['eval.yaml', 'examples/superlint/eval.yaml', 'examples/angular-modern/eval.yaml']) {
+      expect(issues(fs.readFileSync(path.join(root, file), 'utf-8'))).toEqual([]);
+    }
+    const template = fs.readFileSync(path.join(root, 'templates/eval.yaml.template'), 'utf-8')
+      .replace('{{TASK_NAME}}', 'test-skill').replace('{{INSTRUCTION}}', 'Do the thing.');
+    expect(issues(template)).toEqual([]);
+  });
+
+  it('warns about unknown keys with a suggestion at the key position', () => {
+    expect(issues(`version: "1"
+tasks:
+  - name: fix-lint
+    instruction: fix it
+    graders:
+      - type: deterministic
+        run: ./check.sh
+        wieght: 2
+`)).toEqual(['8:9 warning unknown key "wieght" in tasks[0].graders[0] (did you mean "weight"?)']);
+  });
+
+  it('reports a misspelled required key as a warning plus a missing key error', () => {
+    expect(issues(`tasks:
+  - name: fix-lint
+    instruction: fix it
+    grader:
+      - type: deterministic
+        run: ./check.sh
+`)).toEqual([
+      '2:5 error tasks[0] is missing required key "graders"',
+      '4:5 warning unknown key "grader" in tasks[0] (did you mean "graders"?)',
+    ]);
+  });
+
+  it('suggests the closest enum value', () => {
+    expect(issues(TASK.replace('deterministic', 'determinstic'))).toEqual([
+      '5:15 error tasks[0].graders[0].type must be one of deterministic, llm_rubric, skill_triggered, got "determinstic" (did you mean "deterministic"?)',
+    ]);
+  });
+
+  it('reports every error in one pass', () => {
+    expect(issues(`defaults:
+  trials: -1
+  timeout: 0
+  threshold: 1.5
+  agent: claud
+  environment:
+    memory_mb: 512.5
+${TASK}`)).toEqual([
+      '2:11 error defaults.trials must be >= 1, got -1',
+      '3:12 error defaults.timeout must be > 0, got 0',
+      '4:14 error defaults.threshold must be <= 1, got 1.5',
+      '5:10 error defaults.agent must be one of gemini, claude, codex, acp, opencode, got "claud" (did you mean "claude"?)',
+      '7:16 error defaults.environment.memory_mb must be an integer, got number 512.5',
+    ]);
+  });
+
+  it('requires run for deterministic graders and rubric for llm_rubric graders', () => {
+    expect(issues(`tasks:
+  - name: fix-lint
+    instruction: fix it
+    graders:
+      - type: deterministic
+      - { type: llm_rubric, weight: 0.5 }
+`)).toEqual([
+      '5:9 error tasks[0].graders[0] is missing required key "run"',
+      '6:9 error tasks[0].graders[1] is missing required key "rubric"',
+    ]);
+  });
+
+  it('checks both forms of matrix entries', () => {
+    expect(issues(`matrix:
+  - claude:claude-sonnet-4-5
+  - gemni
+  - { agent: codex, modle: gpt-5 }
+${TASK}`)).toEqual([
+      '3:5 error matrix[1] "gemni" does not match ^(gemini|claude|codex|acp|opencode)(:.+)?$',
+      '4:21 warning unknown key "modle" in matrix[2] (did you mean "model"?)',
+    ]);
+  });
+
+  it('reports wrong value types', () => {
+    expect(issues(`tasks:
+  - name: fix-lint
+    instruction: fix it
+    trials: "5"
+    workspace: fixtures/app.js
+    graders:
+      - type: skill_triggered
+        skills: lint
+`)).toEqual([
+      '4:13 error tasks[0].trials must be an integer, got string "5"',
+      '5:16 error tasks[0].workspace must be a list or empty, got string "fixtures/app.js"',
+      '8:17 error tasks[0].graders[0].skills must be a list, got string "lint"',
+    ]);
+  });
+
+  it('reports YAML syntax errors with their position', () => {
+    const { raw, issues } = checkEvalYaml('tasks:\n  - name: a\n   bad: indent\n');
+    expect(raw).toBeUndefined();
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'error', line: 3 });
+  });
+});
+
+describe('formatIssue', () => {
+  it('prefixes the file and position', () => {
+    expect(formatIssue({ severity: 'error', path: 'tasks', message: 'tasks must not be empty', line: 2, column: 8 }))
+      .toBe('eval.yaml:2:8: error: tasks must not be empty');
+    expect(formatIssue({ severity: 'warning', path: '', message: 'unknown key "x"' }, 'other.yaml'))
+      .toBe('other.yaml: warning: unknown key "x"');
+  });
+});
+
+describe('didYouMean', () => {
+  it('suggests candidates within a few edits, counting swapped letters once', () => {
+    expect(didYouMean('wieght', ['weight', 'setup'])).toBe(' (did you mean "weight"?)');
+    expect(didYouMean('timout', ['timeout', 'trials'])).toBe(' (did you mean "timeout"?)');
+    expect(didYouMean('foo', ['weight', 'setup'])).toBe('');
+  });
+});
+
+describe('EVAL_SCHEMA', () => {
+  it('resolves every $ref to a definition', () => {
+    const refs = JSON.stringify(EVAL_SCHEMA).match(/"\$ref":"#\/definitions\/(\w+)"/g) || [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.match(/definitions\/(\w+)/)![1];
+      expect(EVAL_SCHEMA.definitions).toHaveProperty(name);
+    }
+  });
+});